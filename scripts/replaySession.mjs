@@ -0,0 +1,302 @@
+import { readFileSync, writeFileSync, existsSync } from "fs";
+import { basename } from "path";
+
+/**
+ * Replays a session recorded with "Record" (format in src/sessionRecording/sessionRecording.ts) against the realtime API,
+ * optionally with other session instructions, so that prompt changes can be compared on identical inputs.
+ *
+ *   npm run replay -- recording.json [--instructions prompt.md] [--session overrides.json] [--url wss://...] [--out result.json]
+ *
+ * Every outgoing event of the recording (configuration, drawing content, pointed positions, function call follow-ups)
+ * is sent again in the recorded order, on a new connection for every recorded (re)connection.
+ * The questions are sent with their recorded audio and committed by hand (no VAD), and every response is awaited
+ * before going on, so two replays of the same recording only differ in the answers of the model.
+ *
+ * The OpenAI API key is read from OPENAI_API_KEY (environment or .env); the mock server needs none, e.g.
+ *   npm run replay -- recording.json --url ws://localhost:3001/mock-realtime
+ */
+
+const defaultUrl = "wss://api.openai.com/v1/realtime?model=gpt-realtime";
+const sampleRate = 24000;
+const chunkBytes = sampleRate / 10 * 2; // 100 ms of PCM16, as the WebSocket transport
+const waitTimeoutMs = 60000;
+
+// ----------
+// ARGUMENTS
+// ----------
+
+function parseArgs(argv) {
+    const args = { recording: null, instructions: null, session: null, url: defaultUrl, out: null };
+
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        if (arg === "--instructions") args.instructions = argv[++i];
+        else if (arg === "--session") args.session = argv[++i];
+        else if (arg === "--url") args.url = argv[++i];
+        else if (arg === "--out") args.out = argv[++i];
+        else if (!arg.startsWith("--")) args.recording = arg;
+        else throw new Error("Unknown option " + arg);
+    }
+
+    if (!args.recording) throw new Error("Missing recording file");
+    return args;
+}
+
+function getApiKey(url) {
+    if (url.includes("/mock-realtime")) return "mock";
+    if (process.env.OPENAI_API_KEY) return process.env.OPENAI_API_KEY;
+
+    if (existsSync(".env")) {
+        const line = readFileSync(".env", "utf8").split(/\r?\n/).find((l) => l.startsWith("OPENAI_API_KEY="));
+        if (line) return line.slice("OPENAI_API_KEY=".length).trim().replace(/^["']|["']$/g, "");
+    }
+
+    throw new Error("OPENAI_API_KEY not set");
+}
+
+// ---------
+// TIMELINE
+// ---------
+
+// outgoing events and question commits of every connection, in the recorded order
+function buildTimelines(recording) {
+    const segments = [...recording.audio];
+    const transcripts = new Map(); // item id --> transcription of the recorded question
+    const timelines = new Map(); // connection --> steps
+
+    recording.events.forEach(({ direction, connection, event }) => {
+        if (!timelines.has(connection)) timelines.set(connection, []);
+        const steps = timelines.get(connection);
+
+        if (direction === "out") {
+            steps.push({ kind: "send", event });
+
+        } else if (event.type === "input_audio_buffer.committed") {
+            const index = segments.findIndex((s) => s.connection === connection && s.itemId === (event.item_id ?? null));
+            const segment = index >= 0 ? segments.splice(index, 1)[0] : null;
+            steps.push({ kind: "question", itemId: event.item_id ?? null, segment });
+
+        } else if (event.type === "conversation.item.input_audio_transcription.completed") {
+            transcripts.set(event.item_id, event.transcript);
+        }
+    });
+
+    return { timelines, transcripts };
+}
+
+// answers of the recorded session, in the order of their creation
+function collectRecordedAnswers(recording) {
+    const answers = [];
+    const byId = new Map();
+
+    recording.events.forEach(({ direction, event }) => {
+        if (direction !== "in") return;
+        collectAnswer(event, answers, byId);
+    });
+
+    return answers;
+}
+
+function collectAnswer(event, answers, byId) {
+    const responseId = event.response_id ?? event.response?.id;
+
+    switch (event.type) {
+        case "response.created": {
+            const answer = { text: "", functionCalls: [], status: "in_progress" };
+            answers.push(answer);
+            byId.set(responseId, answer);
+            return answer;
+        }
+
+        case "response.output_text.done":
+            if (byId.has(responseId)) byId.get(responseId).text = event.text;
+            break;
+
+        case "response.output_audio_transcript.done":
+            if (byId.has(responseId)) byId.get(responseId).text = event.transcript;
+            break;
+
+        case "response.function_call_arguments.done":
+            if (byId.has(responseId)) byId.get(responseId).functionCalls.push(event.name);
+            break;
+
+        case "response.done":
+            if (byId.has(responseId)) byId.get(responseId).status = event.response?.status ?? "completed";
+            break;
+    }
+
+    return null;
+}
+
+// ------------------
+// SESSION OVERRIDES
+// ------------------
+
+function mergeObjects(base, overrides) {
+    const merged = { ...base };
+    Object.entries(overrides).forEach(([key, value]) => {
+        const isObject = value && typeof value === "object" && !Array.isArray(value);
+        merged[key] = isObject && base[key] && typeof base[key] === "object" ? mergeObjects(base[key], value) : value;
+    });
+    return merged;
+}
+
+// the replay commits the questions by hand, so the VAD is turned off
+function applyOverrides(event, overrides) {
+    if (event.type !== "session.update" || !event.session) return event;
+
+    let session = event.session;
+    if (overrides.instructions && session.instructions !== undefined) session = { ...session, instructions: overrides.instructions };
+    if (overrides.session) session = mergeObjects(session, overrides.session);
+    if (session.audio?.input) session = mergeObjects(session, { audio: { input: { turn_detection: null } } });
+
+    return { ...event, session };
+}
+
+// -----------
+// CONNECTION
+// -----------
+
+function connect(url, apiKey) {
+    return new Promise((resolve, reject) => {
+        const socket = new WebSocket(url, ["realtime", "openai-insecure-api-key." + apiKey]);
+        const listeners = new Set();
+
+        const connection = {
+            send: (event) => socket.send(JSON.stringify(event)),
+            close: () => socket.close(),
+            // resolves with the first event accepted by the predicate
+            waitFor: (predicate, what) => new Promise((resolveWait, rejectWait) => {
+                const timer = setTimeout(() => {
+                    listeners.delete(listener);
+                    rejectWait(new Error("Timeout waiting for " + what));
+                }, waitTimeoutMs);
+                const listener = (event) => {
+                    if (!predicate(event)) return;
+                    clearTimeout(timer);
+                    listeners.delete(listener);
+                    resolveWait(event);
+                };
+                listeners.add(listener);
+            }),
+            onEvent: null
+        };
+
+        socket.onmessage = (e) => {
+            const event = JSON.parse(e.data);
+            connection.onEvent?.(event);
+            listeners.forEach((listener) => listener(event));
+        };
+        socket.onerror = () => reject(new Error("WebSocket connection failed"));
+        socket.onopen = () => connection.waitFor((event) => event.type === "session.created", "session.created").then(() => resolve(connection), reject);
+    });
+}
+
+// -------
+// REPLAY
+// -------
+
+async function replayConnection(steps, url, apiKey, overrides, transcripts, answers) {
+    const connection = await connect(url, apiKey);
+    const byId = new Map();
+    let lastQuestion = null;
+
+    connection.onEvent = (event) => {
+        const answer = collectAnswer(event, answers, byId);
+        if (answer) answer.question = lastQuestion;
+        if (event.type === "error") console.warn("  error: " + event.error?.message);
+    };
+
+    for (const step of steps) {
+        if (step.kind === "question") {
+            lastQuestion = transcripts.get(step.itemId) ?? "(spoken question)";
+            if (!step.segment) {
+                console.warn("  question without recorded audio, skipped");
+                continue;
+            }
+
+            const audio = Buffer.from(step.segment.audio, "base64");
+            for (let offset = 0; offset < audio.length; offset += chunkBytes) {
+                connection.send({ type: "input_audio_buffer.append", audio: audio.subarray(offset, offset + chunkBytes).toString("base64") });
+            }
+            connection.send({ type: "input_audio_buffer.commit" });
+            await connection.waitFor((e) => e.type === "input_audio_buffer.committed" || e.type === "error", "the commit");
+            continue;
+        }
+
+        const event = step.event;
+        // replaced by the recorded questions (clear and commit come from push-to-talk sessions)
+        if (event.type.startsWith("input_audio_buffer.")) continue;
+
+        connection.send(applyOverrides(event, overrides));
+
+        if (event.type === "response.create") {
+            const started = Date.now();
+            const done = await connection.waitFor((e) => e.type === "response.done" || e.type === "error", "the response");
+            if (done.type === "response.done" && answers.length > 0) answers[answers.length - 1].latencyMs = Date.now() - started;
+            lastQuestion = null; // follow-ups (e.g. after a function call) have no question
+        }
+    }
+
+    connection.close();
+}
+
+async function main() {
+    const args = parseArgs(process.argv.slice(2));
+    const recording = JSON.parse(readFileSync(args.recording, "utf8"));
+    if (recording.version !== 1) throw new Error("Unsupported recording version " + recording.version);
+
+    const overrides = {
+        instructions: args.instructions ? readFileSync(args.instructions, "utf8") : null,
+        session: args.session ? JSON.parse(readFileSync(args.session, "utf8")) : null
+    };
+    const apiKey = getApiKey(args.url);
+
+    const { timelines, transcripts } = buildTimelines(recording);
+    const recordedAnswers = collectRecordedAnswers(recording);
+    const replayedAnswers = [];
+
+    console.log(`Replaying ${basename(args.recording)} (${recording.drawing}, ${recording.audio.length} questions) on ${args.url}`);
+
+    for (const [connection, steps] of timelines) {
+        if (connection === 0) continue; // nothing is sent before the session is created
+        console.log(`Connection ${connection}: ${steps.length} steps`);
+        await replayConnection(steps, args.url, apiKey, overrides, transcripts, replayedAnswers);
+    }
+
+    const turns = replayedAnswers.map((replayed, i) => ({
+        question: replayed.question ?? null,
+        recorded: recordedAnswers[i] ?? null,
+        replayed: { text: replayed.text, functionCalls: replayed.functionCalls, status: replayed.status, latencyMs: replayed.latencyMs }
+    }));
+
+    turns.forEach((turn, i) => {
+        console.log(`\n#${i + 1} ${turn.question ?? "(no question)"}`);
+        console.log("  recorded: " + formatAnswer(turn.recorded));
+        console.log("  replayed: " + formatAnswer(turn.replayed));
+    });
+
+    if (args.out) {
+        const result = {
+            recording: basename(args.recording),
+            url: args.url,
+            instructions: args.instructions,
+            session: args.session,
+            replayedAt: new Date().toISOString(),
+            turns
+        };
+        writeFileSync(args.out, JSON.stringify(result, null, 2));
+        console.log("\nResult written to " + args.out);
+    }
+}
+
+function formatAnswer(answer) {
+    if (!answer) return "(none)";
+    const calls = answer.functionCalls.length > 0 ? ` [${answer.functionCalls.join(", ")}]` : "";
+    return (answer.text || "(no text)") + calls + (answer.status !== "completed" ? ` (${answer.status})` : "");
+}
+
+main().catch((err) => {
+    console.error(err.message);
+    process.exit(1);
+});
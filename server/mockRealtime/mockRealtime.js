@@ -0,0 +1,339 @@
+import { acceptWebSocket } from "./webSocketServer";
+import { scenarios } from "./scenarios";
+
+const mockPath = "/mock-realtime";
+const sampleRate = 24000; // PCM16 mono, as the realtime API
+const stepDelayMs = 30;
+const imageTokens = 765; // rough token counts, only to fill the usage of the responses
+const audioTokensPerSecond = 10;
+
+/**
+ * Local stand-in of the OpenAI realtime API, speaking its event protocol over a WebSocket.
+ * It records every event received (except the audio chunks) and plays back the scripted responses of a scenario.
+ *
+ * @param {object} [options]
+ * @param {number} [options.secondsPerQuestion] seconds of received microphone audio that make a question, 0 to commit only on request
+ */
+export function createMockRealtime(options = {}) {
+    const secondsPerQuestion = options.secondsPerQuestion ?? 0;
+
+    const log = []; // { connection, time, event }
+    const connections = new Set();
+    const nextResponse = new Map(); // scenario --> index of the next scripted response
+    let connectionCount = 0;
+
+    function takeResponse(scenarioName) {
+        const { responses } = scenarios[scenarioName];
+        const index = nextResponse.get(scenarioName) ?? 0;
+        nextResponse.set(scenarioName, index + 1);
+        return responses[Math.min(index, responses.length - 1)];
+    }
+
+    function handleUpgrade(req, socket) {
+        const url = new URL(req.url, "http://localhost");
+        const scenarioName = url.searchParams.get("scenario") || "default";
+        if (!scenarios[scenarioName]) {
+            socket.end("HTTP/1.1 404 Not Found\r\n\r\n");
+            return;
+        }
+
+        const id = ++connectionCount;
+        let session = {
+            type: "realtime",
+            object: "realtime.session",
+            id: "sess_mock_" + id,
+            model: "gpt-realtime",
+            output_modalities: ["text"]
+        };
+        let audioBytes = 0;
+        let conversationTokens = { text: 0, audio: 0, image: 0 }; // the whole conversation is the input of every response
+        let responseActive = false;
+        let cancelRequested = false;
+        let eventCount = 0;
+
+        const ws = acceptWebSocket(req, socket, {
+            onMessage: (text) => handleClientEvent(text),
+            onClose: () => connections.delete(connection)
+        });
+        if (!ws) return;
+
+        const send = (event) => ws.send(JSON.stringify({ event_id: `event_mock_${id}_${++eventCount}`, ...event }));
+        const wait = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+        const connection = { id, commit };
+        connections.add(connection);
+
+        console.log(`[MockRealtime] Connection ${id} opened, scenario "${scenarioName}"`);
+        send({ type: "session.created", session });
+
+        // --------------
+        // CLIENT EVENTS
+        // --------------
+
+        function handleClientEvent(text) {
+            let event;
+            try {
+                event = JSON.parse(text);
+            } catch {
+                return send({ type: "error", error: { type: "invalid_request_error", code: "invalid_json", message: "Invalid JSON" } });
+            }
+
+            if (event.type !== "input_audio_buffer.append") log.push({ connection: id, time: Date.now(), event });
+
+            switch (event.type) {
+                case "session.update":
+                    session = { ...session, ...event.session };
+                    send({ type: "session.updated", session });
+                    break;
+
+                case "conversation.item.create":
+                    countItemTokens(event.item);
+                    send({ type: "conversation.item.created", item: { id: `item_mock_${id}_${eventCount}`, ...event.item } });
+                    break;
+
+                case "input_audio_buffer.append":
+                    audioBytes += Buffer.from(event.audio ?? "", "base64").length;
+                    // turn_detection null (push-to-talk): only the client commits
+                    if (secondsPerQuestion > 0 && session.audio?.input?.turn_detection !== null && audioBytes >= secondsPerQuestion * sampleRate * 2) commit();
+                    break;
+
+                case "input_audio_buffer.commit":
+                    countAudioTokens();
+                    committed(`item_mock_${id}_${eventCount}`);
+                    break;
+
+                case "input_audio_buffer.clear":
+                    audioBytes = 0;
+                    send({ type: "input_audio_buffer.cleared" });
+                    break;
+
+                case "response.create":
+                    if (responseActive) {
+                        send({ type: "error", error: { type: "invalid_request_error", code: "conversation_already_has_active_response", message: "Conversation already has an active response" } });
+                        break;
+                    }
+                    playResponse(takeResponse(scenarioName), event.response ?? {});
+                    break;
+
+                case "response.cancel":
+                    if (responseActive) cancelRequested = true;
+                    break;
+
+                // barge-in of the WebSocket transport, the answer is cut where the user stopped hearing it
+                case "conversation.item.truncate":
+                    send({ type: "conversation.item.truncated", item_id: event.item_id, content_index: event.content_index, audio_end_ms: event.audio_end_ms });
+                    break;
+            }
+        }
+
+        // simulates the server VAD detecting a question
+        function commit() {
+            countAudioTokens();
+            const itemId = `item_mock_${id}_${eventCount}`;
+            send({ type: "input_audio_buffer.speech_started", item_id: itemId });
+            send({ type: "input_audio_buffer.speech_stopped", item_id: itemId });
+            committed(itemId);
+        }
+
+        // the transcription follows the commit, only if the session asked for it
+        function committed(itemId) {
+            send({ type: "input_audio_buffer.committed", item_id: itemId });
+            if (!session.audio?.input?.transcription) return;
+
+            setTimeout(() => send({
+                type: "conversation.item.input_audio_transcription.completed",
+                item_id: itemId,
+                content_index: 0,
+                transcript: scenarios[scenarioName].transcript ?? "Mock question."
+            }), stepDelayMs);
+        }
+
+        // ------------
+        // TOKEN USAGE
+        // ------------
+
+        function countItemTokens(item) {
+            (item?.content ?? []).forEach((part) => {
+                if (part.type === "input_text") conversationTokens.text += Math.ceil((part.text ?? "").length / 4);
+                if (part.type === "input_image") conversationTokens.image += imageTokens;
+            });
+        }
+
+        function countAudioTokens() {
+            conversationTokens.audio += Math.round(audioBytes / (sampleRate * 2) * audioTokensPerSecond);
+            audioBytes = 0;
+        }
+
+        function usage(output) {
+            const input = { ...conversationTokens };
+            conversationTokens.text += output.text + output.audio; // the answer becomes part of the conversation
+
+            return {
+                total_tokens: input.text + input.audio + input.image + output.text + output.audio,
+                input_tokens: input.text + input.audio + input.image,
+                output_tokens: output.text + output.audio,
+                input_token_details: {
+                    text_tokens: input.text,
+                    audio_tokens: input.audio,
+                    image_tokens: input.image,
+                    cached_tokens: 0,
+                    cached_tokens_details: { text_tokens: 0, audio_tokens: 0, image_tokens: 0 }
+                },
+                output_token_details: { text_tokens: output.text, audio_tokens: output.audio }
+            };
+        }
+
+        // -------------------
+        // SCRIPTED RESPONSES
+        // -------------------
+
+        async function playResponse(steps, responseOptions) {
+            responseActive = true;
+            cancelRequested = false;
+            const responseId = `resp_mock_${id}_${eventCount}`;
+            const modalities = responseOptions.output_modalities ?? session.output_modalities ?? ["text"];
+            const audio = modalities.includes("audio");
+
+            let status = "completed";
+            let statusDetails = null;
+            const output = { text: 0, audio: 0 };
+
+            send({ type: "response.created", response: { id: responseId, status: "in_progress" } });
+
+            for (const step of steps) {
+                await wait(stepDelayMs);
+                if (cancelRequested) break;
+
+                if (step.text !== undefined) {
+                    await playText(responseId, step.text, audio);
+                    output.text += Math.ceil(step.text.length / 4);
+                    if (audio) output.audio += Math.ceil(step.text.split(/\s+/).length * 0.2 * audioTokensPerSecond); // 0.2 s of audio per word
+
+                } else if (step.functionCall) {
+                    send({
+                        type: "response.function_call_arguments.done",
+                        response_id: responseId,
+                        call_id: "call_mock_" + eventCount,
+                        name: step.functionCall.name,
+                        arguments: step.functionCall.arguments ?? "{}"
+                    });
+
+                } else if (step.failed) {
+                    status = "failed";
+                    statusDetails = { type: "failed", error: step.failed };
+
+                } else if (step.error) {
+                    send({ type: "error", error: step.error });
+                    responseActive = false;
+                    return;
+                }
+            }
+
+            if (cancelRequested) {
+                status = "cancelled";
+                statusDetails = { type: "cancelled", reason: "client_cancelled" };
+            }
+
+            send({ type: "response.done", response: { id: responseId, status, status_details: statusDetails, usage: usage(output) } });
+            responseActive = false;
+        }
+
+        async function playText(responseId, text, audio) {
+            const words = text.split(/(?<=\s)/);
+            const itemId = `item_mock_${id}_${eventCount}`;
+
+            send({ type: "response.content_part.added", response_id: responseId, part: { type: audio ? "audio" : "text" } });
+
+            for (const word of words) {
+                await wait(stepDelayMs);
+                if (cancelRequested) return; // the answer stops where it is
+                if (audio) {
+                    send({ type: "response.output_audio.delta", response_id: responseId, item_id: itemId, content_index: 0, delta: silence(0.2) });
+                    send({ type: "response.output_audio_transcript.delta", response_id: responseId, delta: word });
+                } else {
+                    send({ type: "response.output_text.delta", response_id: responseId, delta: word });
+                }
+            }
+
+            if (audio) {
+                send({ type: "response.output_audio.done", response_id: responseId });
+                send({ type: "response.output_audio_transcript.done", response_id: responseId, transcript: text });
+            } else {
+                send({ type: "response.output_text.done", response_id: responseId, text });
+            }
+        }
+    }
+
+    // ---------------
+    // HTTP ENDPOINTS
+    // ---------------
+
+    // GET  /mock-realtime/log[?type=conversation.item.create]   events received from the clients
+    // DELETE /mock-realtime/log                                 clears the log and restarts the scenarios
+    // POST /mock-realtime/commit                                simulates a question on every open connection
+    function handleRequest(req, res) {
+        const url = new URL(req.url, "http://localhost");
+
+        if (url.pathname === "/log" && req.method === "GET") {
+            const type = url.searchParams.get("type");
+            return sendJson(res, 200, type ? log.filter((entry) => entry.event.type === type) : log);
+        }
+
+        if (url.pathname === "/log" && req.method === "DELETE") {
+            log.length = 0;
+            nextResponse.clear();
+            return sendJson(res, 200, { cleared: true });
+        }
+
+        if (url.pathname === "/commit" && req.method === "POST") {
+            connections.forEach((connection) => connection.commit());
+            return sendJson(res, 200, { connections: connections.size });
+        }
+
+        return sendJson(res, 404, { error: "Not found" });
+    }
+
+    return { handleUpgrade, handleRequest };
+}
+
+/**
+ * Vite plugin mounting the mock realtime server on the dev server (ws://localhost:3001/mock-realtime).
+ * It also adds the "Mock server" transport to the transport picker.
+ *
+ * @param {Parameters<typeof createMockRealtime>[0]} options
+ * @returns {import("vite").Plugin}
+ */
+export function mockRealtime(options) {
+    const mock = createMockRealtime(options);
+
+    return {
+        name: "mock-realtime",
+        apply: "serve",
+
+        configureServer(server) {
+            server.middlewares.use(mockPath, mock.handleRequest);
+
+            server.httpServer?.on("upgrade", (req, socket) => {
+                if (!req.url?.startsWith(mockPath)) return; // e.g. the Vite HMR socket
+                mock.handleUpgrade(req, socket);
+            });
+        },
+
+        transformIndexHtml(html) {
+            return html.replace(
+                '<option value="websocket">WebSocket</option>',
+                '<option value="websocket">WebSocket</option>\n                    <option value="mock">Mock server</option>'
+            );
+        }
+    };
+}
+
+function silence(seconds) {
+    return Buffer.alloc(Math.round(seconds * sampleRate) * 2).toString("base64");
+}
+
+function sendJson(res, status, body) {
+    res.statusCode = status;
+    res.setHeader("Content-Type", "application/json");
+    res.end(JSON.stringify(body));
+}
@@ -0,0 +1,57 @@
+/**
+ * Scripted responses of the mock realtime server.
+ * Every "response.create" of the client plays the next response of the scenario, the last one is repeated.
+ *
+ * A response is a list of steps:
+ * - { text }                        text (or audio transcript) answer
+ * - { functionCall: { name, arguments } }
+ * - { failed: { type, code, message } }   response.done with status "failed"
+ * - { error: { type, code, message } }    "error" event
+ *
+ * The optional "transcript" is the transcription of every committed question (default "Mock question.").
+ */
+export const scenarios = {
+    // plain answers to every question
+    default: {
+        transcript: "What am I pointing at?",
+        responses: [
+            [{ text: "This is a mock answer. You are pointing at the drawing." }]
+        ]
+    },
+
+    // "CamIO start" enables the audio responses, "CamIO stop" disables them
+    wakeWord: {
+        responses: [
+            [{ functionCall: { name: "wake_word", arguments: "{}" } }],
+            [{ text: "Audio responses are now enabled." }],
+            [{ text: "This mock answer is also spoken." }],
+            [{ functionCall: { name: "sleep_word", arguments: "{}" } }],
+            [{ text: "Audio responses are now disabled." }],
+            [{ text: "This is a mock answer in text only." }]
+        ]
+    },
+
+    // a failed response must not end the session
+    failedResponse: {
+        responses: [
+            [{ failed: { type: "server_error", code: "mock_failure", message: "Mock response failure" } }],
+            [{ text: "The session survived the failed response." }]
+        ]
+    },
+
+    // a server error makes the client reconnect and resume the conversation
+    serverError: {
+        responses: [
+            [{ text: "First answer, before the server error." }],
+            [{ error: { type: "server_error", code: "server_error", message: "Mock server error" } }],
+            [{ text: "Answer after the reconnection." }]
+        ]
+    },
+
+    // any other error ends the session
+    invalidRequest: {
+        responses: [
+            [{ error: { type: "invalid_request_error", code: "mock_invalid_request", message: "Mock invalid request" } }]
+        ]
+    }
+};
@@ -0,0 +1,127 @@
+import { createHash } from "crypto";
+
+const handshakeGuid = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+
+/**
+ * Minimal WebSocket server side connection (RFC 6455), enough for JSON text messages.
+ * Accepts an upgrade request and answers with the "realtime" subprotocol, as the OpenAI endpoint does.
+ *
+ * @param {import("http").IncomingMessage} req
+ * @param {import("stream").Duplex} socket
+ * @param {{ onMessage: (text: string) => void, onClose: () => void }} handlers
+ * @returns {{ send: (text: string) => void, close: () => void } | null} null if the handshake is invalid
+ */
+export function acceptWebSocket(req, socket, handlers) {
+    const key = req.headers["sec-websocket-key"];
+    if (!key) {
+        socket.end("HTTP/1.1 400 Bad Request\r\n\r\n");
+        return null;
+    }
+
+    const accept = createHash("sha1").update(key + handshakeGuid).digest("base64");
+    const protocols = String(req.headers["sec-websocket-protocol"] ?? "").split(",").map((p) => p.trim());
+
+    const headers = [
+        "HTTP/1.1 101 Switching Protocols",
+        "Upgrade: websocket",
+        "Connection: Upgrade",
+        "Sec-WebSocket-Accept: " + accept
+    ];
+    if (protocols.includes("realtime")) headers.push("Sec-WebSocket-Protocol: realtime");
+    socket.write(headers.join("\r\n") + "\r\n\r\n");
+
+    let buffer = Buffer.alloc(0);
+    let fragments = [];
+    let closed = false;
+
+    function writeFrame(opcode, payload) {
+        if (closed) return;
+
+        let header;
+        if (payload.length < 126) {
+            header = Buffer.from([0x80 | opcode, payload.length]);
+        } else if (payload.length < 65536) {
+            header = Buffer.alloc(4);
+            header[0] = 0x80 | opcode;
+            header[1] = 126;
+            header.writeUInt16BE(payload.length, 2);
+        } else {
+            header = Buffer.alloc(10);
+            header[0] = 0x80 | opcode;
+            header[1] = 127;
+            header.writeBigUInt64BE(BigInt(payload.length), 2);
+        }
+        socket.write(Buffer.concat([header, payload]));
+    }
+
+    function close() {
+        if (closed) return;
+        writeFrame(0x8, Buffer.from([0x03, 0xe8])); // 1000, normal closure
+        closed = true;
+        socket.end();
+        handlers.onClose();
+    }
+
+    // frames sent by browsers are always masked
+    function readFrames() {
+        while (buffer.length >= 2) {
+            const fin = (buffer[0] & 0x80) !== 0;
+            const opcode = buffer[0] & 0x0f;
+            const masked = (buffer[1] & 0x80) !== 0;
+            let length = buffer[1] & 0x7f;
+            let offset = 2;
+
+            if (length === 126) {
+                if (buffer.length < 4) return;
+                length = buffer.readUInt16BE(2);
+                offset = 4;
+            } else if (length === 127) {
+                if (buffer.length < 10) return;
+                length = Number(buffer.readBigUInt64BE(2));
+                offset = 10;
+            }
+
+            const maskOffset = offset;
+            if (masked) offset += 4;
+            if (buffer.length < offset + length) return;
+
+            const payload = Buffer.from(buffer.subarray(offset, offset + length));
+            if (masked) {
+                for (let i = 0; i < payload.length; i++) payload[i] ^= buffer[maskOffset + (i % 4)];
+            }
+            buffer = buffer.subarray(offset + length);
+
+            if (opcode === 0x8) return close();
+            if (opcode === 0x9) {
+                writeFrame(0xa, payload); // pong
+                continue;
+            }
+            if (opcode === 0xa) continue;
+
+            fragments.push(payload);
+            if (fin) {
+                const message = Buffer.concat(fragments).toString("utf8");
+                fragments = [];
+                handlers.onMessage(message);
+            }
+        }
+    }
+
+    socket.on("data", (chunk) => {
+        buffer = Buffer.concat([buffer, chunk]);
+        readFrames();
+    });
+
+    socket.on("close", () => {
+        if (closed) return;
+        closed = true;
+        handlers.onClose();
+    });
+
+    socket.on("error", () => socket.destroy());
+
+    return {
+        send: (text) => writeFrame(0x1, Buffer.from(text, "utf8")),
+        close
+    };
+}
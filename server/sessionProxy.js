@@ -0,0 +1,136 @@
+import createSessionConfig from "../src/llm_interaction/sessionConfig";
+import { mapLangCodeToName } from "../src/utils/languages";
+import { sanitizeSettings } from "../src/sessionSettings/sessionSettings";
+
+const defaultUpstreamUrl = "https://api.openai.com/v1/realtime/client_secrets";
+
+/**
+ * Handler of the /session endpoint: mints the ephemeral key used by the browser,
+ * so that the OpenAI API key never leaves the server.
+ *
+ * @param {object} options
+ * @param {string} options.apiKey OpenAI API key
+ * @param {string} [options.upstreamUrl] client secrets endpoint (point it to a stub to test the proxy offline)
+ * @param {number} [options.rateLimit] max keys per client address in every window, 0 for no limit
+ * @param {number} [options.rateWindowMs] length of the rate limit window
+ * @param {typeof fetch} [options.fetch] fetch implementation used to reach the upstream
+ */
+export function createSessionHandler(options) {
+    const upstreamUrl = options.upstreamUrl || defaultUpstreamUrl;
+    const rateLimit = options.rateLimit ?? 0;
+    const rateWindowMs = options.rateWindowMs ?? 60000;
+    const fetchUpstream = options.fetch ?? fetch;
+
+    const requestsByClient = new Map(); // client address --> { windowStart, count }
+
+    function isRateLimited(client) {
+        if (rateLimit <= 0) return false;
+
+        const now = Date.now();
+        pruneExpiredWindows(now);
+        const entry = requestsByClient.get(client);
+
+        if (!entry || now - entry.windowStart >= rateWindowMs) {
+            requestsByClient.set(client, { windowStart: now, count: 1 });
+            return false;
+        }
+
+        entry.count++;
+        return entry.count > rateLimit;
+    }
+
+    // the clients that stopped asking for keys are forgotten
+    function pruneExpiredWindows(now) {
+        requestsByClient.forEach((entry, client) => {
+            if (now - entry.windowStart >= rateWindowMs) requestsByClient.delete(client);
+        });
+    }
+
+    return async (req, res) => {
+        if (req.method !== "POST") return sendJson(res, 405, { error: "Method not allowed" });
+        if (!options.apiKey) return sendJson(res, 500, { error: "OPENAI_API_KEY not configured on the server" });
+
+        // keyed on the address, a header set by the client could be changed to get around the limit
+        const client = req.socket.remoteAddress || "unknown";
+        if (isRateLimited(client)) return sendJson(res, 429, { error: "Too many sessions, retry later" });
+
+        let langCode = "en-US";
+        let settings = sanitizeSettings(null);
+        try {
+            const body = await readJsonBody(req);
+            if (typeof body.langCode === "string") langCode = body.langCode;
+            settings = sanitizeSettings(body.settings); // only the known models and voices are accepted
+        } catch {
+            return sendJson(res, 400, { error: "Invalid JSON body" });
+        }
+
+        try {
+            const upstreamRes = await fetchUpstream(upstreamUrl, {
+                method: "POST",
+                headers: {
+                    "Authorization": "Bearer " + options.apiKey,
+                    "Content-Type": "application/json",
+                },
+                body: JSON.stringify({
+                    session: createSessionConfig(mapLangCodeToName(langCode), settings)
+                })
+            });
+
+            if (!upstreamRes.ok) {
+                console.error("[SessionProxy] Upstream error", upstreamRes.status, await upstreamRes.text());
+                return sendJson(res, 502, { error: "Upstream error: " + upstreamRes.status });
+            }
+
+            const data = await upstreamRes.json();
+            if (!data.value) return sendJson(res, 502, { error: "Missing ephemeral key in the upstream response" });
+
+            return sendJson(res, 200, { value: data.value, expires_at: data.expires_at });
+
+        } catch (err) {
+            console.error("[SessionProxy] Error", err);
+            return sendJson(res, 502, { error: "Cannot reach the upstream" });
+        }
+    };
+}
+
+/**
+ * Vite plugin mounting the /session endpoint on the dev and preview servers.
+ *
+ * @param {Parameters<typeof createSessionHandler>[0]} options
+ */
+export function sessionProxy(options) {
+    const handler = createSessionHandler(options);
+
+    return {
+        name: "session-proxy",
+
+        configureServer(server) {
+            server.middlewares.use("/session", handler);
+        },
+
+        configurePreviewServer(server) {
+            server.middlewares.use("/session", handler);
+        }
+    };
+}
+
+function readJsonBody(req) {
+    return new Promise((resolve, reject) => {
+        let raw = "";
+        req.on("data", (chunk) => raw += chunk);
+        req.on("end", () => {
+            try {
+                resolve(raw.length > 0 ? JSON.parse(raw) : {});
+            } catch (err) {
+                reject(err);
+            }
+        });
+        req.on("error", reject);
+    });
+}
+
+function sendJson(res, status, body) {
+    res.statusCode = status;
+    res.setHeader("Content-Type", "application/json");
+    res.end(JSON.stringify(body));
+}
@@ -0,0 +1,148 @@
+import { getCamioFileName } from "../camioFileName";
+import { imageToBase64 } from "../utils/utils";
+import {
+    CamioData,
+    KonvaNode,
+    validateCamioData,
+    validateKonvaStage
+} from "./camioSchema";
+
+export type CamioDrawing = {
+    name: string;
+    data: CamioData;
+    template: string; // base64 data URL
+    colorMap: string; // base64 data URL
+    stage: KonvaNode; // drawing.json
+    sounds: Map<string, Blob>; // sounds/ content, by file name
+    files: Map<string, Uint8Array<ArrayBuffer>>; // raw content of every file of the folder, by path (e.g. "sounds/bell.mp3")
+};
+
+const requiredFiles: string[] = ["data.json", "template.png", "colorMap.png", "drawing.json"];
+
+const soundMimeTypes: Record<string, string> = {
+    mp3: "audio/mpeg",
+    wav: "audio/wav",
+    ogg: "audio/ogg",
+    m4a: "audio/mp4"
+};
+
+// every drawing is loaded and validated only once
+const cache = new Map<string, Promise<CamioDrawing>>();
+
+// -------------
+// LOAD DRAWING
+// -------------
+
+export function loadCamioDrawing(name: string = getCamioFileName()): Promise<CamioDrawing> {
+    let drawing = cache.get(name);
+
+    if (!drawing) {
+        drawing = fetchCamioDrawing(name);
+        drawing.catch(() => cache.delete(name)); // retry on the next request
+        cache.set(name, drawing);
+    }
+
+    return drawing;
+}
+
+// drawings that are not served from files/ (e.g. imported .camio archives)
+export function registerCamioDrawing(drawing: CamioDrawing): void {
+    cache.set(drawing.name, Promise.resolve(drawing));
+}
+
+async function fetchCamioDrawing(name: string): Promise<CamioDrawing> {
+    const folder = "/" + name;
+
+    try {
+        const paths = await fetchFileList(name);
+        const files = new Map<string, Uint8Array<ArrayBuffer>>();
+
+        // a missing optional file (e.g. a sound) is not fatal
+        await Promise.all(paths.map(async (path) => {
+            try {
+                files.set(path, await fetchFile(folder + "/" + path));
+            } catch (err) {
+                if (requiredFiles.includes(path)) throw err;
+                console.warn(`${path} of "${name}" not available:`, (err as Error).message);
+            }
+        }));
+
+        return await createCamioDrawing(name, files);
+
+    } catch (err) {
+        throw new Error(`Cannot load drawing "${name}": ` + (err as Error).message);
+    }
+}
+
+// ------------
+// PARSE FILES
+// ------------
+
+// files: the content of a drawing folder, by path relative to the folder
+export async function createCamioDrawing(name: string, files: Map<string, Uint8Array<ArrayBuffer>>): Promise<CamioDrawing> {
+    const getFile = (path: string): Uint8Array<ArrayBuffer> => {
+        const file = files.get(path);
+        if (!file) throw new Error(`${path} is missing`);
+        return file;
+    };
+
+    const data = validateCamioData(parseJson(getFile("data.json"), "data.json"));
+    const stage = validateKonvaStage(parseJson(getFile("drawing.json"), "drawing.json"));
+    const template = await imageToBase64(new Blob([getFile("template.png")], { type: "image/png" }));
+    const colorMap = await imageToBase64(new Blob([getFile("colorMap.png")], { type: "image/png" }));
+
+    const sounds = new Map<string, Blob>();
+    files.forEach((content, path) => {
+        if (!path.startsWith("sounds/")) return;
+
+        const soundName = path.slice("sounds/".length);
+        const extension = soundName.split(".").pop()?.toLowerCase() ?? "";
+        sounds.set(soundName, new Blob([content], { type: soundMimeTypes[extension] ?? "audio/mpeg" }));
+    });
+
+    data.hotspots.forEach((hotspot) => {
+        if (hotspot.sound && !sounds.has(hotspot.sound)) console.warn(`Sound "${hotspot.sound}" not found in "${name}"`);
+    });
+
+    return { name, data, template, colorMap, stage, sounds, files };
+}
+
+// data.json as written by the author, with the options that the validation does not know
+export function getDataJsonText(drawing: CamioDrawing): string {
+    const content = drawing.files.get("data.json");
+    return content ? new TextDecoder().decode(content) : JSON.stringify(drawing.data);
+}
+
+function parseJson(content: Uint8Array, path: string): unknown {
+    try {
+        return JSON.parse(new TextDecoder().decode(content));
+    } catch {
+        throw new Error(`${path} is not valid JSON`);
+    }
+}
+
+// ------------
+// FETCH FILES
+// ------------
+
+// the manifest lists the files of every drawing folder (see vite.config.js)
+async function fetchFileList(name: string): Promise<string[]> {
+    try {
+        const response = await fetch("/drawings.json");
+        if (!response.ok) throw new Error("Cannot fetch /drawings.json");
+        const manifest = await response.json();
+        if (!Array.isArray(manifest.files?.[name])) throw new Error(`"${name}" is not in /drawings.json`);
+        return manifest.files[name];
+
+    } catch (err) {
+        console.warn(`File list of "${name}" not available, loading the required files only:`, (err as Error).message);
+        return requiredFiles;
+    }
+}
+
+// the dev server answers the missing files with index.html
+async function fetchFile(path: string): Promise<Uint8Array<ArrayBuffer>> {
+    const response = await fetch(path);
+    if (!response.ok || response.headers.get("Content-Type")?.startsWith("text/html")) throw new Error(`Cannot fetch ${path}`);
+    return new Uint8Array(await response.arrayBuffer());
+}
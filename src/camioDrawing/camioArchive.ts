@@ -0,0 +1,63 @@
+import { unzip, zip, Unzipped, Zippable } from "fflate";
+import { CamioDrawing, createCamioDrawing } from "./CamioDrawing";
+
+// a .camio file is a zip archive with the content of a drawing folder:
+// data.json, template.png, colorMap.png, drawing.json and sounds/*
+
+// -------
+// IMPORT
+// -------
+
+export async function readCamioArchive(file: File, name: string): Promise<CamioDrawing> {
+    const entries = await unzipAsync(new Uint8Array(await file.arrayBuffer()));
+
+    // the archive may contain the files at its root or inside a single folder
+    const dataPath = Object.keys(entries).find((path) => path === "data.json" || path.endsWith("/data.json"));
+    if (!dataPath) throw new Error(`${file.name} does not contain a data.json`);
+    const root = dataPath.slice(0, dataPath.length - "data.json".length);
+
+    // every file is kept as it is, also the ones the app does not read
+    const files = new Map<string, Uint8Array<ArrayBuffer>>();
+    Object.keys(entries)
+        .filter((path) => path.startsWith(root) && !path.endsWith("/") && !path.startsWith("__MACOSX/"))
+        .forEach((path) => files.set(path.slice(root.length), entries[path]));
+
+    try {
+        return await createCamioDrawing(name, files);
+    } catch (err) {
+        throw new Error(`Cannot import ${file.name}: ` + (err as Error).message);
+    }
+}
+
+// -------
+// EXPORT
+// -------
+
+// the files of the folder are written unchanged, not the data parsed by the app
+export async function writeCamioArchive(drawing: CamioDrawing): Promise<Blob> {
+    const stored = { level: 0 as const }; // png and audio files are already compressed
+
+    const files: Zippable = {};
+    drawing.files.forEach((content, path) => {
+        files[path] = path.endsWith(".json") ? content : [content, stored];
+    });
+
+    const archive = await zipAsync(files);
+    return new Blob([archive], { type: "application/zip" });
+}
+
+// -------------------
+// FFLATE PROMISIFIED
+// -------------------
+
+function unzipAsync(data: Uint8Array): Promise<Unzipped> {
+    return new Promise((resolve, reject) => {
+        unzip(data, (err, result) => err ? reject(err) : resolve(result));
+    });
+}
+
+function zipAsync(files: Zippable): Promise<Uint8Array<ArrayBuffer>> {
+    return new Promise((resolve, reject) => {
+        zip(files, (err, result) => err ? reject(err) : resolve(result));
+    });
+}
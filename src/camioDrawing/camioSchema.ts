@@ -0,0 +1,219 @@
+export type RGBAColor = [number, number, number, number]; // alpha in the range 0-1
+
+export type CamioMetadata = {
+    title: string;
+    shortDescription: string;
+    longDescription: string;
+    creationDate: string;
+    lastUpdate: string;
+    lang: string;
+};
+
+export type CamioOptions = {
+    noTemplateDetectedMsg: boolean;
+    noHandDetectedMsg: boolean;
+    tooManyHandsMsg: boolean;
+    notPointingMsg: boolean;
+    noHotspotInfoMsg: boolean;
+    speechSynthesis: boolean;
+    playSounds: boolean;
+    fixTactilePaper: boolean;
+    debugMode: boolean;
+    templateMatchingInterval: number;
+    positionChangeThreshold: number | null; // pixel of the reduced template, null: the session setting; not part of the original CamIO format
+    detailHotspotOverlay: boolean | null; // hotspot regions tinted in the detail image, null: the session setting; not part of the original CamIO format
+};
+
+export type CamioHotspot = {
+    color: RGBAColor;
+    title: string;
+    description: string;
+    sound?: string;
+};
+
+// options of other CamIO versions (e.g. homographyMaxAge), kept as they are
+export type OtherCamioOptions = Record<string, unknown>;
+
+// content of data.json
+export type CamioData = {
+    metadata: CamioMetadata;
+    options: CamioOptions & OtherCamioOptions;
+    hotspots: CamioHotspot[];
+};
+
+// content of drawing.json (a serialized Konva stage)
+export type KonvaNode = {
+    className: string;
+    attrs: Record<string, unknown>;
+    children?: KonvaNode[];
+};
+
+export const defaultCamioOptions: CamioOptions = {
+    noTemplateDetectedMsg: true,
+    noHandDetectedMsg: true,
+    tooManyHandsMsg: true,
+    notPointingMsg: true,
+    noHotspotInfoMsg: true,
+    speechSynthesis: false,
+    playSounds: true,
+    fixTactilePaper: false,
+    debugMode: false,
+    templateMatchingInterval: 0,
+    positionChangeThreshold: null,
+    detailHotspotOverlay: null
+};
+
+// options without a default value, whose type cannot be read from defaultCamioOptions
+const nullableOptionTypes: Partial<Record<keyof CamioOptions, "number" | "boolean">> = {
+    positionChangeThreshold: "number",
+    detailHotspotOverlay: "boolean"
+};
+
+// ----------
+// DATA.JSON
+// ----------
+
+export function validateCamioData(raw: unknown): CamioData {
+    const problems: string[] = [];
+
+    if (!isObject(raw)) throw new Error("data.json is not a JSON object");
+
+    const metadata = validateMetadata(raw.metadata, problems);
+    const options = validateOptions(raw.options, problems);
+    const hotspots = validateHotspots(raw.hotspots, problems);
+
+    if (problems.length > 0) throw new Error("Invalid data.json: " + problems.join("; "));
+
+    return { metadata, options, hotspots };
+}
+
+function validateMetadata(raw: unknown, problems: string[]): CamioMetadata {
+    if (!isObject(raw)) {
+        problems.push("metadata is missing");
+        raw = {};
+    }
+    const metadata = raw as Record<string, unknown>;
+
+    if (typeof metadata.title !== "string" || metadata.title.length === 0) problems.push("metadata has no title");
+
+    const optionalFields = ["shortDescription", "longDescription", "creationDate", "lastUpdate", "lang"];
+    optionalFields.forEach((field) => {
+        if (metadata[field] !== undefined && typeof metadata[field] !== "string") problems.push(`metadata.${field} is not a string`);
+    });
+
+    return {
+        title: String(metadata.title ?? ""),
+        shortDescription: String(metadata.shortDescription ?? ""),
+        longDescription: String(metadata.longDescription ?? ""),
+        creationDate: String(metadata.creationDate ?? ""),
+        lastUpdate: String(metadata.lastUpdate ?? ""),
+        lang: String(metadata.lang || "en-US")
+    };
+}
+
+// missing options fall back to their defaults, options of the wrong type are errors, unknown options are kept
+function validateOptions(raw: unknown, problems: string[]): CamioOptions & OtherCamioOptions {
+    if (raw === undefined) return { ...defaultCamioOptions };
+    if (!isObject(raw)) {
+        problems.push("options is not an object");
+        return { ...defaultCamioOptions };
+    }
+
+    const options: Record<string, unknown> = { ...raw };
+
+    (Object.keys(defaultCamioOptions) as (keyof CamioOptions)[]).forEach((key) => {
+        const type = nullableOptionTypes[key] ?? typeof defaultCamioOptions[key];
+
+        if (raw[key] === undefined || raw[key] === null) {
+            options[key] = defaultCamioOptions[key];
+        } else if (typeof raw[key] !== type) {
+            problems.push(`options.${key} is not a ${type}`);
+        }
+    });
+
+    return options as CamioOptions & OtherCamioOptions;
+}
+
+function validateHotspots(raw: unknown, problems: string[]): CamioHotspot[] {
+    if (!Array.isArray(raw)) {
+        problems.push("hotspots is not a list");
+        return [];
+    }
+
+    const hotspots: CamioHotspot[] = [];
+    const titles = new Set<string>();
+    const colors = new Set<string>();
+
+    raw.forEach((element: unknown, i: number) => {
+        const name = `hotspot ${i + 1}`;
+
+        if (!isObject(element)) {
+            problems.push(`${name} is not an object`);
+            return;
+        }
+
+        const label = typeof element.title === "string" ? `${name} ("${element.title}")` : name;
+
+        if (typeof element.title !== "string" || element.title.length === 0) {
+            problems.push(`${name} has no title`);
+        } else if (titles.has(element.title)) {
+            problems.push(`${label} has a duplicate title`);
+        } else {
+            titles.add(element.title);
+        }
+
+        if (element.color === undefined) {
+            problems.push(`${label} has no color`);
+        } else if (!isRGBAColor(element.color)) {
+            problems.push(`${label} has an invalid color, expected [r, g, b, a] with r, g, b in 0-255 and a in 0-1`);
+        } else if (colors.has(element.color.join(","))) {
+            problems.push(`${label} has the same color of another hotspot`);
+        } else {
+            colors.add(element.color.join(","));
+        }
+
+        if (element.description !== undefined && typeof element.description !== "string") {
+            problems.push(`${label} has a description that is not a string`);
+        }
+
+        if (element.sound !== undefined && (typeof element.sound !== "string" || element.sound.length === 0)) {
+            problems.push(`${label} has an invalid sound`);
+        }
+
+        const hotspot: CamioHotspot = {
+            color: element.color as RGBAColor,
+            title: String(element.title ?? ""),
+            description: String(element.description ?? "")
+        };
+        if (typeof element.sound === "string") hotspot.sound = element.sound;
+
+        hotspots.push(hotspot);
+    });
+
+    return hotspots;
+}
+
+function isRGBAColor(value: unknown): value is RGBAColor {
+    if (!Array.isArray(value) || value.length !== 4) return false;
+    if (!value.every((v) => typeof v === "number" && Number.isFinite(v))) return false;
+
+    const [r, g, b, a] = value as number[];
+    return [r, g, b].every((v) => v >= 0 && v <= 255) && a >= 0 && a <= 1;
+}
+
+// -------------
+// DRAWING.JSON
+// -------------
+
+export function validateKonvaStage(raw: unknown): KonvaNode {
+    if (!isObject(raw)) throw new Error("drawing.json is not a JSON object");
+    if (raw.className !== "Stage") throw new Error("drawing.json is not a Konva stage");
+    if (!isObject(raw.attrs)) throw new Error("drawing.json stage has no attrs");
+    if (!Array.isArray(raw.children)) throw new Error("drawing.json stage has no layers");
+
+    return raw as unknown as KonvaNode;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -1,5 +1,10 @@
-export const camioFileName: string = "Islet";
-// Aeroplano
-// Car
-// House_with_rainbow
-// Islet
+// drawing loaded at startup, the available ones are listed in /drawings.json
+let camioFileName: string = "Islet";
+
+export function getCamioFileName(): string {
+    return camioFileName;
+}
+
+export function setCamioFileName(name: string): void {
+    camioFileName = name;
+}
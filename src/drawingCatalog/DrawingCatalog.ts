@@ -0,0 +1,238 @@
+import { getCamioFileName, setCamioFileName } from "../camioFileName";
+import { loadCamioDrawing, registerCamioDrawing } from "../camioDrawing/CamioDrawing";
+import { readCamioArchive, writeCamioArchive } from "../camioDrawing/camioArchive";
+
+interface UIElements {
+    drawingSelect: HTMLSelectElement;
+    importInput: HTMLInputElement;
+    exportBtn: HTMLButtonElement;
+}
+
+type DrawingChangeHandler = (drawing: string) => Promise<void>;
+
+export class DrawingCatalog {
+    private static instance: DrawingCatalog | null = null;
+
+    private elements: UIElements | null = null;
+
+    private drawings: string[] = [];
+    private importedDrawings: Set<string> = new Set();
+    private onDrawingChange: DrawingChangeHandler | null = null;
+
+    private readonly urlParam: string = "drawing";
+
+    // ---------------
+    // INITIALIZATION
+    // ---------------
+
+    private constructor() { }
+
+    public static getInstance(): DrawingCatalog {
+        if (!DrawingCatalog.instance) {
+            DrawingCatalog.instance = new DrawingCatalog();
+        }
+
+        return DrawingCatalog.instance;
+    }
+
+    public async init(onDrawingChange: DrawingChangeHandler): Promise<void> {
+        this.initializeUIElements();
+        if (!this.elements) return console.error("UI elements not initialized");
+
+        this.onDrawingChange = onDrawingChange;
+        this.drawings = await this.getManifest();
+
+        // the drawing in the URL wins over the default one
+        const urlDrawing = this.getUrlDrawing();
+        if (urlDrawing && this.drawings.includes(urlDrawing)) {
+            setCamioFileName(urlDrawing);
+        } else if (urlDrawing) {
+            console.warn(`Drawing "${urlDrawing}" not found, loading "${getCamioFileName()}"`);
+        }
+
+        if (!this.drawings.includes(getCamioFileName()) && this.drawings.length > 0) {
+            setCamioFileName(this.drawings[0]);
+        }
+
+        this.setUrlDrawing(getCamioFileName());
+        this.populateDrawingSelect();
+
+        this.elements.drawingSelect.onchange = () => this.selectDrawing(this.elements!.drawingSelect.value);
+        this.initArchiveHandling();
+    }
+
+    private initializeUIElements(): void {
+        this.elements = {
+            drawingSelect: document.getElementById("drawingSelect") as HTMLSelectElement,
+            importInput: document.getElementById("importInput") as HTMLInputElement,
+            exportBtn: document.getElementById("exportBtn") as HTMLButtonElement
+        }
+    }
+
+    // -------------
+    // GET MANIFEST
+    // -------------
+
+    // the manifest lists the drawing folders under files/ (see vite.config.js)
+    private async getManifest(): Promise<string[]> {
+        const path = "/drawings.json";
+
+        try {
+            const response = await fetch(path);
+            if (!response.ok) throw new Error(`Cannot fetch ${path}`);
+            const manifest = await response.json();
+            return manifest.drawings ?? [];
+
+        } catch (err) {
+            console.error("Failed to load the drawing catalog:", err);
+            return [getCamioFileName()];
+        }
+    }
+
+    private populateDrawingSelect(): void {
+        if (!this.elements) return console.error("UI elements not initialized");
+
+        this.elements.drawingSelect.innerHTML = "";
+
+        this.drawings.forEach(drawing => {
+            const option = document.createElement("option");
+            option.value = drawing;
+            option.textContent = drawing.replace(/_/g, " ") + (this.importedDrawings.has(drawing) ? " (imported)" : "");
+            option.selected = drawing === getCamioFileName();
+            this.elements!.drawingSelect.appendChild(option);
+        });
+    }
+
+    // ----------------
+    // DRAWING CHANGES
+    // ----------------
+
+    private async selectDrawing(drawing: string): Promise<void> {
+        if (!this.elements) return console.error("UI elements not initialized");
+        if (drawing === getCamioFileName()) return;
+
+        setCamioFileName(drawing);
+        this.setUrlDrawing(drawing);
+        this.elements.drawingSelect.value = drawing;
+        console.log(`Loading drawing "${drawing}"`);
+
+        this.elements.drawingSelect.disabled = true;
+        try {
+            if (this.onDrawingChange) await this.onDrawingChange(drawing);
+
+        } catch (err) {
+            console.error("Failed to load the drawing:", err);
+
+        } finally {
+            this.elements.drawingSelect.disabled = false;
+        }
+    }
+
+    // ---------------
+    // CAMIO ARCHIVES
+    // ---------------
+
+    private initArchiveHandling(): void {
+        if (!this.elements) return console.error("UI elements not initialized");
+
+        this.elements.importInput.onchange = async () => {
+            const file = this.elements!.importInput.files?.[0];
+            this.elements!.importInput.value = ""; // allows importing the same file again
+            if (file) await this.importArchive(file);
+        };
+
+        this.elements.exportBtn.onclick = () => this.exportArchive();
+
+        // drag and drop anywhere on the page
+        document.addEventListener("dragover", (e: DragEvent) => {
+            if (!e.dataTransfer?.types.includes("Files")) return;
+            e.preventDefault();
+            e.dataTransfer.dropEffect = "copy";
+            document.body.classList.add("fileDragOver");
+        });
+        document.addEventListener("dragleave", (e: DragEvent) => {
+            if (e.relatedTarget === null) document.body.classList.remove("fileDragOver");
+        });
+        document.addEventListener("drop", async (e: DragEvent) => {
+            document.body.classList.remove("fileDragOver");
+            const file = e.dataTransfer?.files[0];
+            if (!file) return;
+            e.preventDefault();
+            await this.importArchive(file);
+        });
+    }
+
+    private async importArchive(file: File): Promise<void> {
+        if (!file.name.toLowerCase().endsWith(".camio")) {
+            console.error(`${file.name} is not a .camio file`);
+            return;
+        }
+
+        try {
+            const name = this.getImportedName(file.name.replace(/\.camio$/i, ""));
+            const drawing = await readCamioArchive(file, name);
+
+            registerCamioDrawing(drawing);
+            this.importedDrawings.add(name);
+            this.drawings.push(name);
+            this.populateDrawingSelect();
+            console.log(`Imported ${file.name}`);
+
+            await this.selectDrawing(name);
+
+        } catch (err) {
+            console.error(err instanceof Error ? err.message : err);
+        }
+    }
+
+    // imported drawings never replace the ones served from files/
+    private getImportedName(baseName: string): string {
+        let name = baseName;
+        for (let i = 2; this.drawings.includes(name); i++) {
+            name = `${baseName} (${i})`;
+        }
+        return name;
+    }
+
+    private async exportArchive(): Promise<void> {
+        if (!this.elements) return console.error("UI elements not initialized");
+
+        this.elements.exportBtn.disabled = true;
+        try {
+            const drawing = await loadCamioDrawing();
+            const archive = await writeCamioArchive(drawing);
+
+            const link = document.createElement("a");
+            link.href = URL.createObjectURL(archive);
+            link.download = drawing.name + ".camio";
+            link.click();
+            setTimeout(() => URL.revokeObjectURL(link.href), 1000);
+
+        } catch (err) {
+            console.error("Failed to export the drawing:", err);
+
+        } finally {
+            this.elements.exportBtn.disabled = false;
+        }
+    }
+
+    // ----
+    // URL
+    // ----
+
+    private getUrlDrawing(): string | null {
+        const params = new URLSearchParams(window.location.search);
+        return params.get(this.urlParam);
+    }
+
+    // imported drawings only exist in this page, so they cannot be shared
+    private setUrlDrawing(drawing: string): void {
+        const url = new URL(window.location.href);
+        if (this.importedDrawings.has(drawing)) {
+            url.searchParams.delete(this.urlParam);
+        } else {
+            url.searchParams.set(this.urlParam, drawing);
+        }
+        window.history.replaceState(null, "", url);
+    }
+}
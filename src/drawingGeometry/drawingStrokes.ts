@@ -0,0 +1,160 @@
+import { KonvaNode, RGBAColor } from "../camioDrawing/camioSchema";
+
+export type Point = { x: number, y: number };
+
+// a Line node of drawing.json, in the coordinates of the reduced template
+export type DrawingStroke = {
+    id: string;
+    color: RGBAColor | null; // stroke color, equal to the color of a hotspot
+    closed: boolean;
+    width: number; // stroke width
+    points: Point[];
+};
+
+type Transform = { x: number, y: number, scaleX: number, scaleY: number };
+
+const identity: Transform = { x: 0, y: 0, scaleX: 1, scaleY: 1 };
+
+// --------
+// PARSING
+// --------
+
+// the background Image node is the template: its box in the stage is mapped onto the reduced template
+export function extractStrokes(stage: KonvaNode, viewSize: { width: number, height: number }): DrawingStroke[] {
+    const imageBox = findImageBox(stage) ?? {
+        x: 0,
+        y: 0,
+        width: Number(stage.attrs.width) || viewSize.width,
+        height: Number(stage.attrs.height) || viewSize.height
+    };
+
+    const toView = (p: Point): Point => ({
+        x: (p.x - imageBox.x) / imageBox.width * viewSize.width,
+        y: (p.y - imageBox.y) / imageBox.height * viewSize.height
+    });
+    const viewScale = viewSize.width / imageBox.width;
+
+    const strokes: DrawingStroke[] = [];
+
+    walk(stage, identity, (node, transform) => {
+        if (node.className !== "Line" || !Array.isArray(node.attrs.points)) return;
+
+        // the tension of the freehand lines (0.5) is not followed: their curves become straight segments,
+        // close enough since the editor samples the points densely
+        const coords: number[] = node.attrs.points;
+        const points: Point[] = [];
+        for (let i = 0; i + 1 < coords.length; i += 2) {
+            points.push(toView(apply(transform, { x: coords[i], y: coords[i + 1] })));
+        }
+
+        strokes.push({
+            id: String(node.attrs.id ?? node.attrs.name ?? "line-" + strokes.length),
+            color: parseColor(node.attrs.stroke) ?? parseColor(node.attrs.fill),
+            closed: node.attrs.closed === true,
+            width: (Number(node.attrs.strokeWidth) || 0) * transform.scaleX * viewScale,
+            points
+        });
+    });
+
+    return strokes;
+}
+
+// box of the first Image node, in stage coordinates
+function findImageBox(stage: KonvaNode): { x: number, y: number, width: number, height: number } | null {
+    let box: { x: number, y: number, width: number, height: number } | null = null;
+
+    walk(stage, identity, (node, transform) => {
+        if (box || node.className !== "Image") return;
+
+        const width = Number(node.attrs.width);
+        const height = Number(node.attrs.height);
+        if (!(width > 0) || !(height > 0)) return;
+
+        const topLeft = apply(transform, { x: 0, y: 0 });
+        box = { x: topLeft.x, y: topLeft.y, width: width * transform.scaleX, height: height * transform.scaleY };
+    });
+
+    return box;
+}
+
+// visits every node with the transform from its own coordinates to the stage ones (no rotation)
+function walk(node: KonvaNode, parent: Transform, visit: (node: KonvaNode, transform: Transform) => void): void {
+    const own: Transform = {
+        x: Number(node.attrs.x) || 0,
+        y: Number(node.attrs.y) || 0,
+        scaleX: Number(node.attrs.scaleX ?? 1),
+        scaleY: Number(node.attrs.scaleY ?? 1)
+    };
+    const transform: Transform = node.className === "Stage" ? identity : {
+        x: parent.x + own.x * parent.scaleX,
+        y: parent.y + own.y * parent.scaleY,
+        scaleX: parent.scaleX * own.scaleX,
+        scaleY: parent.scaleY * own.scaleY
+    };
+
+    visit(node, transform);
+    node.children?.forEach((child) => walk(child, transform, visit));
+}
+
+function apply(transform: Transform, p: Point): Point {
+    return { x: transform.x + p.x * transform.scaleX, y: transform.y + p.y * transform.scaleY };
+}
+
+// "rgba(63, 81, 181, 1)", "rgb(63, 81, 181)" or "#3f51b5"
+export function parseColor(value: unknown): RGBAColor | null {
+    if (typeof value !== "string") return null;
+
+    const rgba = value.match(/^rgba?\(\s*([\d.]+)\s*,\s*([\d.]+)\s*,\s*([\d.]+)\s*(?:,\s*([\d.]+)\s*)?\)$/i);
+    if (rgba) return [Number(rgba[1]), Number(rgba[2]), Number(rgba[3]), rgba[4] === undefined ? 1 : Number(rgba[4])];
+
+    const hex = value.match(/^#([0-9a-f]{6})$/i);
+    if (hex) {
+        const n = parseInt(hex[1], 16);
+        return [(n >> 16) & 255, (n >> 8) & 255, n & 255, 1];
+    }
+
+    return null;
+}
+
+// ---------
+// GEOMETRY
+// ---------
+
+// 0 inside a closed stroke, otherwise the distance from the stroke border
+export function distanceToStroke(stroke: DrawingStroke, p: Point): number {
+    if (stroke.points.length === 0) return Infinity;
+    if (stroke.closed && isInsidePolygon(stroke.points, p)) return 0;
+
+    let min = Infinity;
+    const last = stroke.closed ? stroke.points.length : stroke.points.length - 1;
+
+    for (let i = 0; i < Math.max(1, last); i++) {
+        const a = stroke.points[i];
+        const b = stroke.points[(i + 1) % stroke.points.length];
+        min = Math.min(min, distanceToSegment(p, a, b));
+    }
+
+    return Math.max(0, min - stroke.width / 2);
+}
+
+// ray casting
+export function isInsidePolygon(points: Point[], p: Point): boolean {
+    let inside = false;
+
+    for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+        const a = points[i];
+        const b = points[j];
+        if ((a.y > p.y) !== (b.y > p.y) && p.x < (b.x - a.x) * (p.y - a.y) / (b.y - a.y) + a.x) inside = !inside;
+    }
+
+    return inside;
+}
+
+function distanceToSegment(p: Point, a: Point, b: Point): number {
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSquared = dx * dx + dy * dy;
+
+    const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSquared));
+    return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+}
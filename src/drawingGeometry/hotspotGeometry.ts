@@ -0,0 +1,166 @@
+import { CamioHotspot, KonvaNode, RGBAColor } from "../camioDrawing/camioSchema";
+import { PixelBuffer, createPixelBuffer } from "../utils/raster/pixels";
+import { DrawingStroke, Point, extractStrokes, distanceToStroke } from "./drawingStrokes";
+
+export type BoundingBox = { minX: number, minY: number, maxX: number, maxY: number };
+
+// every stroke of drawing.json with the color of a hotspot
+export type HotspotRegion = {
+    title: string;
+    color: RGBAColor;
+    polylines: Point[][];
+    bbox: BoundingBox;
+};
+
+// in the coordinates of the reduced template (width x height)
+export type HotspotGeometry = {
+    width: number;
+    height: number;
+    regions: HotspotRegion[];
+    strokes: { stroke: DrawingStroke, title: string | null, bbox: BoundingBox }[]; // in paint order
+};
+
+// ------
+// BUILD
+// ------
+
+export function buildHotspotGeometry(stage: KonvaNode, hotspots: CamioHotspot[], size: { width: number, height: number }): HotspotGeometry {
+    const strokes = extractStrokes(stage, size).map((stroke) => ({
+        stroke,
+        title: findHotspotByColor(hotspots, stroke.color)?.title ?? null,
+        bbox: getBoundingBox(stroke.points, stroke.width / 2)
+    }));
+
+    const regions: HotspotRegion[] = [];
+    hotspots.forEach((hotspot) => {
+        const own = strokes.filter(({ title }) => title === hotspot.title);
+        if (own.length === 0) return;
+
+        regions.push({
+            title: hotspot.title,
+            color: hotspot.color,
+            polylines: own.map(({ stroke }) => stroke.points),
+            bbox: mergeBoxes(own.map(({ bbox }) => bbox))
+        });
+    });
+
+    return { width: size.width, height: size.height, regions, strokes };
+}
+
+// stroke colors are written by the editor from the hotspot colors, so they match exactly
+export function findHotspotByColor(hotspots: CamioHotspot[], color: RGBAColor | null): CamioHotspot | null {
+    if (!color) return null;
+
+    return hotspots.find((hotspot) => hotspot.color.every((value, i) => Math.abs(value - color[i]) < (i === 3 ? 0.01 : 1))) ?? null;
+}
+
+function getBoundingBox(points: Point[], margin: number): BoundingBox {
+    const box = { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity };
+
+    points.forEach(({ x, y }) => {
+        box.minX = Math.min(box.minX, x - margin);
+        box.minY = Math.min(box.minY, y - margin);
+        box.maxX = Math.max(box.maxX, x + margin);
+        box.maxY = Math.max(box.maxY, y + margin);
+    });
+
+    return box;
+}
+
+function mergeBoxes(boxes: BoundingBox[]): BoundingBox {
+    return {
+        minX: Math.min(...boxes.map((b) => b.minX)),
+        minY: Math.min(...boxes.map((b) => b.minY)),
+        maxX: Math.max(...boxes.map((b) => b.maxX)),
+        maxY: Math.max(...boxes.map((b) => b.maxY))
+    };
+}
+
+// ---------
+// HIT TEST
+// ---------
+
+// the last painted stroke is on top, as in the editor
+export function hitTest(geometry: HotspotGeometry, p: Point): string | null {
+    for (let i = geometry.strokes.length - 1; i >= 0; i--) {
+        const { stroke, title, bbox } = geometry.strokes[i];
+        if (p.x < bbox.minX || p.x > bbox.maxX || p.y < bbox.minY || p.y > bbox.maxY) continue;
+
+        if (distanceToStroke(stroke, p) === 0) return title;
+    }
+
+    return null;
+}
+
+// -----------------
+// COLOR MAP RENDER
+// -----------------
+
+// exact hotspot colors (no antialiasing) at any resolution, transparent outside the hotspots
+export function renderColorMap(geometry: HotspotGeometry, width: number, height: number): PixelBuffer {
+    const pixels = createPixelBuffer(width, height);
+    const scaleX = width / geometry.width;
+    const scaleY = height / geometry.height;
+
+    geometry.strokes.forEach(({ stroke, title }) => {
+        const region = geometry.regions.find((r) => r.title === title);
+        if (!region) return;
+
+        const [r, g, b, a] = region.color;
+        const color = [r, g, b, Math.round(a * 255)];
+        const setPixel = (px: number, py: number) => pixels.data.set(color, (py * width + px) * 4);
+
+        const points = stroke.points.map(({ x, y }) => ({ x: x * scaleX, y: y * scaleY }));
+        const halfWidth = stroke.width / 2 * scaleX;
+
+        if (stroke.closed) fillPolygon(points, width, height, setPixel);
+        if (halfWidth > 0) strokePolyline(points, stroke.closed, halfWidth, width, height, setPixel);
+    });
+
+    return pixels;
+}
+
+// scanline fill of the pixel centers inside the polygon (even-odd rule, as isInsidePolygon)
+function fillPolygon(points: Point[], width: number, height: number, setPixel: (x: number, y: number) => void): void {
+    const minY = Math.max(0, Math.floor(Math.min(...points.map((p) => p.y))));
+    const maxY = Math.min(height - 1, Math.ceil(Math.max(...points.map((p) => p.y))));
+
+    for (let py = minY; py <= maxY; py++) {
+        const y = py + 0.5;
+        const crossings: number[] = [];
+
+        for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+            const a = points[i];
+            const b = points[j];
+            if ((a.y > y) !== (b.y > y)) crossings.push((b.x - a.x) * (y - a.y) / (b.y - a.y) + a.x);
+        }
+        crossings.sort((a, b) => a - b);
+
+        for (let k = 0; k + 1 < crossings.length; k += 2) {
+            const fromX = Math.max(0, Math.ceil(crossings[k] - 0.5));
+            const toX = Math.min(width - 1, Math.ceil(crossings[k + 1] - 0.5) - 1);
+            for (let px = fromX; px <= toX; px++) setPixel(px, py);
+        }
+    }
+}
+
+function strokePolyline(points: Point[], closed: boolean, halfWidth: number, width: number, height: number, setPixel: (x: number, y: number) => void): void {
+    const last = closed ? points.length : points.length - 1;
+
+    for (let i = 0; i < Math.max(1, last); i++) {
+        const a = points[i];
+        const b = points[(i + 1) % points.length];
+        const segment: DrawingStroke = { id: "", color: null, closed: false, width: halfWidth * 2, points: [a, b] };
+
+        const minX = Math.max(0, Math.floor(Math.min(a.x, b.x) - halfWidth));
+        const maxX = Math.min(width - 1, Math.ceil(Math.max(a.x, b.x) + halfWidth));
+        const minY = Math.max(0, Math.floor(Math.min(a.y, b.y) - halfWidth));
+        const maxY = Math.min(height - 1, Math.ceil(Math.max(a.y, b.y) + halfWidth));
+
+        for (let py = minY; py <= maxY; py++) {
+            for (let px = minX; px <= maxX; px++) {
+                if (distanceToStroke(segment, { x: px + 0.5, y: py + 0.5 }) === 0) setPixel(px, py);
+            }
+        }
+    }
+}
@@ -1,27 +1,16 @@
+import { SessionSettings, defaultSessionSettings } from "../sessionSettings/sessionSettings";
 
-function getEnvApiKey(): string | null {
-    const key = (import.meta as any).env?.VITE_OPENAI_API_KEY;
-    return typeof key === 'string' && key.length > 0 ? key : null;
-}
-
-export async function getEphemeralKey(): Promise<string | null> {
-    const url = "https://api.openai.com/v1/realtime/client_secrets";
-    const apiKey = getEnvApiKey();
-    const llmModel = "gpt-realtime";
+// the key is minted by the /session endpoint (server/sessionProxy.js), the OpenAI API key stays on the server
+export async function getEphemeralKey(langCode: string = "en-US", settings: SessionSettings = defaultSessionSettings): Promise<string | null> {
+    const url = "/session";
 
     try {
         const res = await fetch(url, {
             method: "POST",
             headers: {
-                "Authorization": 'Bearer ' + apiKey,
                 "Content-Type": "application/json",
             },
-            body: JSON.stringify({
-                session: {
-                    type: "realtime",
-                    model: llmModel,
-                }
-            })
+            body: JSON.stringify({ langCode, settings })
         });
 
         if (!res.ok) throw new Error("HTTP error:" + res.status);
@@ -33,4 +22,4 @@ export async function getEphemeralKey(): Promise<string | null> {
         console.error("Error obtaining ephemeral key:", err);
         return null;
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,236 @@
+import { loadCamioDrawing } from "../camioDrawing/CamioDrawing";
+import { CamioHotspot, KonvaNode, RGBAColor } from "../camioDrawing/camioSchema";
+import { HotspotGeometry, buildHotspotGeometry, hitTest, renderColorMap } from "../drawingGeometry/hotspotGeometry";
+import {
+    base64ToBlob,
+    reduceResolution,
+    viewDimension,
+    getImageData
+} from '../utils/utils';
+
+export class HotspotResolver {
+    private static instance: HotspotResolver | null = null;
+
+    private colorMap: ImageData | null = null;
+    private hotspots: CamioHotspot[] = [];
+    private geometry: HotspotGeometry | null = null; // drawing.json strokes, for the exact lookup
+
+    private readonly colorTolerance: number = 12; // max difference per channel (0-255)
+    private readonly neighborhoodRadius: number = 3; // pixel
+
+    // ---------------
+    // INITIALIZATION
+    // ---------------
+
+    private constructor() { }
+
+    public static getInstance(): HotspotResolver {
+        if (!HotspotResolver.instance) {
+            HotspotResolver.instance = new HotspotResolver();
+        }
+
+        return HotspotResolver.instance;
+    }
+
+    public async init(): Promise<void> {
+        try {
+            const drawing = await loadCamioDrawing();
+            this.hotspots = drawing.data.hotspots;
+            this.colorMap = await this.getReducedColorMap(drawing.colorMap);
+            this.geometry = this.getGeometry(drawing.stage, this.colorMap);
+
+        } catch (err) {
+            console.error("Failed to initialize hotspot resolver:", err);
+            this.colorMap = null;
+            this.hotspots = [];
+            this.geometry = null;
+        }
+    }
+
+    public isReady(): boolean {
+        return this.colorMap !== null;
+    }
+
+    // --------------
+    // GET COLOR MAP
+    // --------------
+
+    // the color map is reduced exactly like the template, so that both share the same coordinates
+    private async getReducedColorMap(base64ColorMap: string): Promise<ImageData> {
+        const blob = base64ToBlob(base64ColorMap);
+        const reducedDimBlob = await reduceResolution(blob, viewDimension);
+        return await getImageData(reducedDimBlob);
+    }
+
+    // -------------
+    // GET GEOMETRY
+    // -------------
+
+    // only if every hotspot has its strokes, otherwise the lookup stays on the color map
+    private getGeometry(stage: KonvaNode, colorMap: ImageData): HotspotGeometry | null {
+        try {
+            const geometry = buildHotspotGeometry(stage, this.hotspots, colorMap);
+            if (geometry.regions.length < this.hotspots.length) {
+                console.warn(`Hotspot geometry incomplete (${geometry.regions.length}/${this.hotspots.length} hotspots), using the color map`);
+                return null;
+            }
+
+            // the rendered color map has no blended borders
+            const rendered = renderColorMap(geometry, colorMap.width, colorMap.height);
+            this.colorMap = new ImageData(rendered.data, rendered.width, rendered.height);
+
+            return geometry;
+
+        } catch (err) {
+            console.warn("Hotspot geometry not available, using the color map:", err);
+            return null;
+        }
+    }
+
+    public getHotspotGeometry(): HotspotGeometry | null {
+        return this.geometry;
+    }
+
+    // ---------------
+    // HOTSPOT LOOKUP
+    // ---------------
+
+    public getHotspotAt(x: number | null, y: number | null): string | null {
+        if (!this.colorMap) return null;
+        if (x === null || y === null) return null;
+
+        if (this.geometry) return hitTest(this.geometry, { x, y });
+
+        const centerX = Math.round(x);
+        const centerY = Math.round(y);
+        const radius = this.neighborhoodRadius;
+
+        // the exact pixel wins, otherwise the closest matching pixel in the neighborhood
+        // (reducing the color map blends the colors along the borders of the hotspots)
+        let bestHotspot: CamioHotspot | null = null;
+        let bestDistance = Infinity;
+
+        for (let dy = -radius; dy <= radius; dy++) {
+            for (let dx = -radius; dx <= radius; dx++) {
+                const distance = dx * dx + dy * dy;
+                if (distance > radius * radius || distance >= bestDistance) continue;
+
+                const hotspot = this.matchPixel(centerX + dx, centerY + dy);
+                if (hotspot) {
+                    bestHotspot = hotspot;
+                    bestDistance = distance;
+                }
+            }
+        }
+
+        return bestHotspot ? bestHotspot.title : null;
+    }
+
+    public getSize(): { width: number, height: number } | null {
+        return this.colorMap ? { width: this.colorMap.width, height: this.colorMap.height } : null;
+    }
+
+    // closest pixel of every other hotspot, nearest first
+    public getNearestHotspots(x: number, y: number, limit: number = 3): { title: string, dx: number, dy: number, distance: number }[] {
+        if (!this.colorMap) return [];
+
+        const current = this.getHotspotAt(x, y);
+        const nearest = new Map<string, { dx: number, dy: number, distance: number }>();
+
+        for (let py = 0; py < this.colorMap.height; py++) {
+            for (let px = 0; px < this.colorMap.width; px++) {
+                const hotspot = this.matchPixel(px, py);
+                if (!hotspot || hotspot.title === current) continue;
+
+                const dx = px - x;
+                const dy = py - y;
+                const distance = Math.hypot(dx, dy);
+                const best = nearest.get(hotspot.title);
+                if (!best || distance < best.distance) nearest.set(hotspot.title, { dx, dy, distance });
+            }
+        }
+
+        return Array.from(nearest, ([title, value]) => ({ title, ...value }))
+            .sort((a, b) => a.distance - b.distance)
+            .slice(0, limit);
+    }
+
+    // ---------------
+    // REGION OVERLAY
+    // ---------------
+
+    // the color map with only the pixels of the hotspots, the rest transparent
+    public getRegionMask(): ImageData | null {
+        if (!this.colorMap) return null;
+
+        const mask = new ImageData(this.colorMap.width, this.colorMap.height);
+        for (let y = 0; y < mask.height; y++) {
+            for (let x = 0; x < mask.width; x++) {
+                const hotspot = this.matchPixel(x, y);
+                if (!hotspot) continue;
+
+                const [r, g, b] = hotspot.color;
+                mask.data.set([r, g, b, 255], (y * mask.width + x) * 4);
+            }
+        }
+
+        return mask;
+    }
+
+    // a pixel of every hotspot close to its centroid (that may fall outside, e.g. on rings)
+    public getHotspotAnchors(): { title: string, x: number, y: number }[] {
+        if (!this.colorMap) return [];
+
+        const sums = new Map<string, { x: number, y: number, count: number }>();
+        this.forEachHotspotPixel((title, x, y) => {
+            const sum = sums.get(title) ?? { x: 0, y: 0, count: 0 };
+            sum.x += x;
+            sum.y += y;
+            sum.count++;
+            sums.set(title, sum);
+        });
+
+        const anchors = new Map<string, { x: number, y: number, distance: number }>();
+        this.forEachHotspotPixel((title, x, y) => {
+            const sum = sums.get(title)!;
+            const distance = Math.hypot(x - sum.x / sum.count, y - sum.y / sum.count);
+            const best = anchors.get(title);
+            if (!best || distance < best.distance) anchors.set(title, { x, y, distance });
+        });
+
+        return Array.from(anchors, ([title, { x, y }]) => ({ title, x, y }));
+    }
+
+    private forEachHotspotPixel(visit: (title: string, x: number, y: number) => void): void {
+        if (!this.colorMap) return;
+
+        for (let y = 0; y < this.colorMap.height; y++) {
+            for (let x = 0; x < this.colorMap.width; x++) {
+                const hotspot = this.matchPixel(x, y);
+                if (hotspot) visit(hotspot.title, x, y);
+            }
+        }
+    }
+
+    private matchPixel(x: number, y: number): CamioHotspot | null {
+        if (!this.colorMap) return null;
+        if (x < 0 || y < 0 || x >= this.colorMap.width || y >= this.colorMap.height) return null;
+
+        const i = (y * this.colorMap.width + x) * 4;
+        const data = this.colorMap.data;
+        const pixel = [data[i], data[i + 1], data[i + 2], data[i + 3]];
+
+        return this.hotspots.find((hotspot) => this.colorsMatch(pixel, hotspot.color)) ?? null;
+    }
+
+    // hotspot colors are RGBA tuples with the alpha channel in the range 0-1
+    private colorsMatch(pixel: number[], color: RGBAColor): boolean {
+        const [r, g, b, a] = color;
+        const tol = this.colorTolerance;
+
+        return Math.abs(pixel[0] - r) <= tol
+            && Math.abs(pixel[1] - g) <= tol
+            && Math.abs(pixel[2] - b) <= tol
+            && Math.abs(pixel[3] - Math.round(a * 255)) <= tol;
+    }
+}
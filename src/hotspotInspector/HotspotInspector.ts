@@ -0,0 +1,162 @@
+import { loadCamioDrawing } from "../camioDrawing/CamioDrawing";
+import { CamioHotspot } from "../camioDrawing/camioSchema";
+import { HotspotResolver } from "../hotspotDetection/HotspotResolver";
+import { HotspotSoundPlayer } from "../hotspotSounds/HotspotSoundPlayer";
+
+interface UIElements {
+    hotspotOverlayToggle: HTMLInputElement;
+    hotspotOverlay: HTMLElement;
+    hotspotTooltip: HTMLElement;
+    hotspotPanelTitle: HTMLElement;
+    hotspotDescription: HTMLElement;
+    hotspotSound: HTMLElement;
+    playSoundBtn: HTMLButtonElement;
+}
+
+// lets the team check that the hotspot data matches the drawing, before a user session
+export class HotspotInspector {
+    private static instance: HotspotInspector | null = null;
+
+    private elements: UIElements | null = null;
+
+    private hotspots: CamioHotspot[] = [];
+    private shownHotspot: string | null = null;
+
+    // ---------------
+    // INITIALIZATION
+    // ---------------
+
+    private constructor() { }
+
+    public static getInstance(): HotspotInspector {
+        if (!HotspotInspector.instance) {
+            HotspotInspector.instance = new HotspotInspector();
+        }
+
+        return HotspotInspector.instance;
+    }
+
+    public init(): void {
+        this.initializeUIElements();
+        if (!this.elements) return console.error("UI elements not initialized");
+
+        this.elements.hotspotOverlayToggle.onchange = () => {
+            this.elements!.hotspotOverlay.hidden = !this.isOverlayOn();
+            if (!this.isOverlayOn()) this.hideTooltip();
+        };
+        this.elements.playSoundBtn.onclick = () => {
+            if (this.shownHotspot) HotspotSoundPlayer.getInstance().preview(this.shownHotspot);
+        };
+    }
+
+    private initializeUIElements(): void {
+        this.elements = {
+            hotspotOverlayToggle: document.getElementById("hotspotOverlayToggle") as HTMLInputElement,
+            hotspotOverlay: document.getElementById("hotspotOverlay") as HTMLElement,
+            hotspotTooltip: document.getElementById("hotspotTooltip") as HTMLElement,
+            hotspotPanelTitle: document.getElementById("hotspotPanelTitle") as HTMLElement,
+            hotspotDescription: document.getElementById("hotspotDescription") as HTMLElement,
+            hotspotSound: document.getElementById("hotspotSound") as HTMLElement,
+            playSoundBtn: document.getElementById("playSoundBtn") as HTMLButtonElement
+        }
+    }
+
+    // needs the hotspot resolver already initialized, the overlay uses its color map
+    public async loadDrawing(): Promise<void> {
+        if (!this.elements) return console.error("UI elements not initialized");
+
+        this.hotspots = (await loadCamioDrawing()).data.hotspots;
+        this.shownHotspot = null;
+
+        this.renderOverlay();
+        this.hideTooltip();
+        this.showHotspot(null);
+    }
+
+    private isOverlayOn(): boolean {
+        if (!this.elements) return false;
+        return this.elements.hotspotOverlayToggle.checked;
+    }
+
+    // --------
+    // OVERLAY
+    // --------
+
+    // the regions are drawn at the size of the reduced template and scaled by CSS with the image
+    private renderOverlay(): void {
+        if (!this.elements) return console.error("UI elements not initialized");
+
+        const overlay = this.elements.hotspotOverlay;
+        overlay.innerHTML = "";
+        overlay.hidden = !this.isOverlayOn();
+
+        const resolver = HotspotResolver.getInstance();
+        const mask = resolver.getRegionMask();
+        if (!mask) return;
+
+        const canvas = document.createElement("canvas");
+        canvas.width = mask.width;
+        canvas.height = mask.height;
+        canvas.getContext("2d")!.putImageData(mask, 0, 0);
+        overlay.appendChild(canvas);
+
+        resolver.getHotspotAnchors().forEach(({ title, x, y }) => {
+            const label = document.createElement("span");
+            label.className = "hotspotLabel";
+            label.textContent = title;
+            label.style.left = `${x / mask.width * 100}%`;
+            label.style.top = `${y / mask.height * 100}%`;
+            overlay.appendChild(label);
+        });
+    }
+
+    // --------
+    // TOOLTIP
+    // --------
+
+    // offsetX and offsetY are relative to the image container
+    public showTooltip(x: number, y: number, offsetX: number, offsetY: number): void {
+        if (!this.elements) return console.error("UI elements not initialized");
+        if (!this.isOverlayOn()) return;
+
+        const hotspot = HotspotResolver.getInstance().getHotspotAt(x, y);
+        const tooltip = this.elements.hotspotTooltip;
+
+        tooltip.textContent = `${hotspot ?? "No hotspot"} (x ${x}, y ${y})`;
+        tooltip.style.left = `${offsetX + 12}px`;
+        tooltip.style.top = `${offsetY + 12}px`;
+        tooltip.hidden = false;
+    }
+
+    public hideTooltip(): void {
+        if (!this.elements) return console.error("UI elements not initialized");
+
+        this.elements.hotspotTooltip.hidden = true;
+    }
+
+    // -----------
+    // SIDE PANEL
+    // -----------
+
+    // the pointed hotspot, or the one picked by hand
+    public showHotspot(title: string | null): void {
+        if (!this.elements) return console.error("UI elements not initialized");
+        if (title === this.shownHotspot && title !== null) return;
+
+        this.shownHotspot = title;
+        const hotspot = this.hotspots.find((element) => element.title === title);
+
+        if (!hotspot) {
+            this.elements.hotspotPanelTitle.textContent = "No hotspot selected";
+            this.elements.hotspotDescription.textContent = "Point at a hotspot, or pick one by hand, to inspect it.";
+            this.elements.hotspotSound.textContent = "";
+            this.elements.playSoundBtn.disabled = true;
+            return;
+        }
+
+        this.elements.hotspotPanelTitle.textContent = hotspot.title;
+        this.elements.hotspotDescription.textContent = hotspot.description || "(no description)";
+        this.elements.hotspotSound.textContent = "Sound: " + (hotspot.sound ?? "none");
+        this.elements.playSoundBtn.disabled = !hotspot.sound;
+    }
+}
@@ -0,0 +1,129 @@
+import { loadCamioDrawing } from "../camioDrawing/CamioDrawing";
+
+export class HotspotSoundPlayer {
+    private static instance: HotspotSoundPlayer | null = null;
+
+    private audio: HTMLAudioElement | null = null;
+    private pendingSound: Blob | null = null;
+    private modelSpeaking: boolean = false;
+
+    // ---------------
+    // INITIALIZATION
+    // ---------------
+
+    private constructor() { }
+
+    public static getInstance(): HotspotSoundPlayer {
+        if (!HotspotSoundPlayer.instance) {
+            HotspotSoundPlayer.instance = new HotspotSoundPlayer();
+        }
+
+        return HotspotSoundPlayer.instance;
+    }
+
+    // ----------------
+    // HOTSPOT CHANGES
+    // ----------------
+
+    // called when the pointed position enters a hotspot (or leaves all of them, with null)
+    public async onHotspotEntered(title: string | null): Promise<void> {
+        this.pendingSound = null;
+        if (!title) return;
+
+        try {
+            const { data } = await loadCamioDrawing();
+            if (!data.options.playSounds) return;
+
+            const sound = await this.getSound(title);
+            if (!sound) return;
+
+            // the model's voice always has priority, the sound waits for it to finish
+            if (this.modelSpeaking) {
+                this.pendingSound = sound;
+                return;
+            }
+
+            this.play(sound);
+
+        } catch (err) {
+            console.warn("Cannot play hotspot sound:", err);
+        }
+    }
+
+    // plays the sound on request (hotspot inspector), even if the drawing options disable the sounds
+    public async preview(title: string): Promise<void> {
+        try {
+            const sound = await this.getSound(title);
+            if (sound) this.play(sound);
+
+        } catch (err) {
+            console.warn("Cannot play hotspot sound:", err);
+        }
+    }
+
+    private async getSound(title: string): Promise<Blob | null> {
+        const { data, sounds } = await loadCamioDrawing();
+
+        const hotspot = data.hotspots.find((element) => element.title === title);
+        if (!hotspot?.sound) return null;
+
+        const sound = sounds.get(hotspot.sound);
+        if (!sound) {
+            console.warn(`Sound "${hotspot.sound}" of hotspot "${title}" not available`);
+            return null;
+        }
+
+        return sound;
+    }
+
+    // ------------
+    // MODEL AUDIO
+    // ------------
+
+    public setModelSpeaking(speaking: boolean): void {
+        this.modelSpeaking = speaking;
+
+        if (speaking) {
+            this.stop();
+        } else if (this.pendingSound) {
+            const sound = this.pendingSound;
+            this.pendingSound = null;
+            this.play(sound);
+        }
+    }
+
+    // ---------
+    // PLAYBACK
+    // ---------
+
+    private play(sound: Blob): void {
+        this.stop();
+
+        const url = URL.createObjectURL(sound);
+        const audio = new Audio(url);
+        this.audio = audio;
+
+        audio.onended = () => {
+            if (this.audio === audio) this.stop();
+        };
+        audio.onerror = () => {
+            if (this.audio !== audio) return;
+            console.warn("Hotspot sound playback error");
+            this.stop();
+        };
+        audio.play().catch((err) => console.warn("Cannot play hotspot sound:", (err as Error).message));
+    }
+
+    public stop(): void {
+        if (!this.audio) return;
+
+        this.audio.pause();
+        URL.revokeObjectURL(this.audio.src);
+        this.audio = null;
+    }
+
+    public reset(): void {
+        this.pendingSound = null;
+        this.stop();
+    }
+}
@@ -0,0 +1,156 @@
+import { CamioDrawing } from "../camioDrawing/CamioDrawing";
+import { offscreenRaster } from "../utils/raster/offscreenRaster";
+import { prepareImages, drawPointedPositionOn, toPreparedImages, createDetailImage } from "./imagePipeline";
+import {
+    DetailImage,
+    ImageSettings,
+    PreparedImages,
+    PreprocessorRequest,
+    PreprocessorResponse,
+    PreprocessorResults
+} from "./preprocessorMessages";
+import { DetailHotspot } from "./detailImage";
+
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+
+type RequestBody = DistributiveOmit<PreprocessorRequest, "id">;
+type PreprocessorResult = PreprocessorResults[keyof PreprocessorResults];
+
+export class ImagePreprocessor {
+    private static instance: ImagePreprocessor | null = null;
+
+    private worker: Worker | null = null;
+    private nextRequestId: number = 0;
+    private pendingRequests: Map<number, { resolve: (result: PreprocessorResult) => void, reject: (err: Error) => void }> = new Map();
+
+    private preparing: WeakMap<CamioDrawing, Map<string, Promise<PreparedImages>>> = new WeakMap(); // drawing --> settings --> images
+    private sources: Map<string, { template: string, colorMap: string, settings: ImageSettings }> = new Map(); // key --> what the images were prepared from
+    private mainThreadKeys: Set<string> = new Set(); // images whose originals are also kept by the main thread
+
+    // ---------------
+    // INITIALIZATION
+    // ---------------
+
+    // the worker needs OffscreenCanvas, otherwise the images are processed on the main thread
+    private constructor() {
+        if (typeof Worker === "undefined" || !offscreenRaster.isSupported()) return;
+
+        try {
+            this.worker = new Worker(new URL("./imagePreprocessor.worker.ts", import.meta.url), { type: "module" });
+            this.worker.onmessage = (e: MessageEvent<PreprocessorResponse>) => this.handleResponse(e.data);
+            this.worker.onerror = (e: ErrorEvent) => {
+                console.warn("Image preprocessing worker failed, using the main thread:", e.message);
+                this.disableWorker();
+            };
+
+        } catch (err) {
+            console.warn("Image preprocessing worker not available, using the main thread:", err);
+            this.worker = null;
+        }
+    }
+
+    public static getInstance(): ImagePreprocessor {
+        if (!ImagePreprocessor.instance) {
+            ImagePreprocessor.instance = new ImagePreprocessor();
+        }
+
+        return ImagePreprocessor.instance;
+    }
+
+    // ----------------
+    // PUBLIC REQUESTS
+    // ----------------
+
+    // template and color map reduced and compressed for the model, from the cache when possible
+    public prepare(drawing: CamioDrawing, settings: ImageSettings): Promise<PreparedImages> {
+        if (!this.preparing.has(drawing)) this.preparing.set(drawing, new Map());
+        const bySettings = this.preparing.get(drawing)!;
+
+        const settingsKey = `${settings.maxKB}-${settings.maxDimension}`;
+        let images = bySettings.get(settingsKey);
+
+        if (!images) {
+            images = this.worker
+                ? this.request({ type: "prepare", template: drawing.template, colorMap: drawing.colorMap, settings })
+                : this.prepareOnMainThread(drawing.template, drawing.colorMap, settings);
+
+            images.then(
+                (prepared) => this.sources.set(prepared.key, { template: drawing.template, colorMap: drawing.colorMap, settings }),
+                () => bySettings.delete(settingsKey) // a failure can be retried
+            );
+            bySettings.set(settingsKey, images);
+        }
+
+        return images;
+    }
+
+    // gray scale template with the pointed position, as base64
+    public async drawPointedPosition(key: string, x: number, y: number, radius: number): Promise<string> {
+        if (!this.worker) {
+            await this.prepareOnMainThreadIfNeeded(key);
+            return drawPointedPositionOn(key, x, y, radius);
+        }
+
+        return this.request({ type: "drawPointedPosition", key, x, y, radius });
+    }
+
+    // enlarged crop of the original template around the pointed position, hotspots overlaid when given
+    public async createDetailImage(key: string, x: number, y: number, hotspots: DetailHotspot[] | null): Promise<DetailImage> {
+        if (!this.worker) {
+            await this.prepareOnMainThreadIfNeeded(key);
+            return createDetailImage(key, x, y, hotspots);
+        }
+
+        return this.request({ type: "detail", key, x, y, hotspots });
+    }
+
+    // -------
+    // WORKER
+    // -------
+
+    // the worker answers every request type with its result type
+    private request<M extends RequestBody>(message: M): Promise<PreprocessorResults[M["type"]]> {
+        const id = this.nextRequestId++;
+
+        return new Promise((resolve, reject) => {
+            this.pendingRequests.set(id, { resolve: (result) => resolve(result as PreprocessorResults[M["type"]]), reject });
+            this.worker!.postMessage({ ...message, id });
+        });
+    }
+
+    private handleResponse(response: PreprocessorResponse): void {
+        const pending = this.pendingRequests.get(response.id);
+        if (!pending) return;
+
+        this.pendingRequests.delete(response.id);
+        if ("error" in response) {
+            pending.reject(new Error(response.error));
+        } else {
+            pending.resolve(response.result);
+        }
+    }
+
+    // pending requests are rejected, the next ones run on the main thread
+    private disableWorker(): void {
+        this.worker?.terminate();
+        this.worker = null;
+
+        this.pendingRequests.forEach(({ reject }) => reject(new Error("Image preprocessing worker failed")));
+        this.pendingRequests.clear();
+        this.preparing = new WeakMap();
+    }
+
+    private async prepareOnMainThread(template: string, colorMap: string, settings: ImageSettings): Promise<PreparedImages> {
+        const images = await prepareImages(template, colorMap, settings);
+        this.mainThreadKeys.add(images.key);
+        return toPreparedImages(images);
+    }
+
+    // after a worker failure, the originals of the images it prepared are only in the worker: they are prepared again here (usually from the cache)
+    private async prepareOnMainThreadIfNeeded(key: string): Promise<void> {
+        const source = this.sources.get(key);
+        if (this.mainThreadKeys.has(key) || !source) return;
+
+        await this.prepareOnMainThread(source.template, source.colorMap, source.settings);
+    }
+}
@@ -0,0 +1,110 @@
+import { PixelBuffer, fitWithin, cropPixels, drawDot } from "../utils/raster/pixels";
+import { RGBAColor } from "../camioDrawing/camioSchema";
+
+export type DetailHotspot = {
+    title: string;
+    color: RGBAColor;
+};
+
+export type DetailCrop = {
+    pixels: PixelBuffer;
+    hotspots: string[]; // titles of the hotspots inside the crop
+};
+
+const detailFraction: number = 0.12; // crop radius, as a fraction of the long side of the drawing
+const minDetailRadius: number = 64; // pixel of the original template
+const colorTolerance: number = 12; // max difference per channel, same as the hotspot resolver
+const overlayAlpha: number = 0.35;
+
+// ----------
+// CROP AREA
+// ----------
+
+// from the coordinates of the position view (template reduced to viewDimension) to the original template
+export function viewToOriginal(
+    x: number,
+    y: number,
+    original: { width: number, height: number },
+    viewDimension: number
+): { x: number, y: number } {
+    const view = fitWithin(original.width, original.height, viewDimension);
+    return {
+        x: x * (original.width / view.width),
+        y: y * (original.height / view.height)
+    };
+}
+
+// square around the point, shifted to stay inside the drawing
+export function getDetailArea(x: number, y: number, width: number, height: number): { left: number, top: number, size: number } {
+    const radius = Math.max(minDetailRadius, Math.round(Math.max(width, height) * detailFraction));
+    const size = Math.min(radius * 2, width, height);
+
+    const left = Math.max(0, Math.min(width - size, Math.round(x - size / 2)));
+    const top = Math.max(0, Math.min(height - size, Math.round(y - size / 2)));
+
+    return { left, top, size };
+}
+
+// -------------
+// DETAIL IMAGE
+// -------------
+
+// crop of the original template with the pointed position, and optionally the hotspot regions tinted with their color
+export function cropDetail(
+    template: PixelBuffer,
+    colorMap: PixelBuffer | null,
+    x: number,
+    y: number,
+    hotspots: DetailHotspot[] | null
+): DetailCrop {
+    const { left, top, size } = getDetailArea(x, y, template.width, template.height);
+
+    let pixels = cropPixels(template, left, top, size, size);
+    let visible: string[] = [];
+
+    // the color map may have a different resolution than the template
+    if (colorMap && hotspots && hotspots.length > 0) {
+        const scaleX = colorMap.width / template.width;
+        const scaleY = colorMap.height / template.height;
+        const regions = cropPixels(colorMap, left * scaleX, top * scaleY, size * scaleX, size * scaleY);
+
+        const overlay = overlayHotspots(pixels, regions, hotspots);
+        pixels = overlay.pixels;
+        visible = overlay.hotspots;
+    }
+
+    const dotRadius = Math.max(4, Math.round(size / 60));
+    pixels = drawDot(pixels, x - left, y - top, dotRadius);
+
+    return { pixels, hotspots: visible };
+}
+
+function overlayHotspots(pixels: PixelBuffer, regions: PixelBuffer, hotspots: DetailHotspot[]): DetailCrop {
+    const data = new Uint8ClampedArray(pixels.data);
+    const found = new Set<string>();
+
+    for (let py = 0; py < pixels.height; py++) {
+        const ry = Math.min(regions.height - 1, Math.floor(py * regions.height / pixels.height));
+
+        for (let px = 0; px < pixels.width; px++) {
+            const rx = Math.min(regions.width - 1, Math.floor(px * regions.width / pixels.width));
+            const r = (ry * regions.width + rx) * 4;
+
+            const hotspot = hotspots.find(({ color }) =>
+                Math.abs(regions.data[r] - color[0]) <= colorTolerance &&
+                Math.abs(regions.data[r + 1] - color[1]) <= colorTolerance &&
+                Math.abs(regions.data[r + 2] - color[2]) <= colorTolerance &&
+                Math.abs(regions.data[r + 3] - color[3] * 255) <= colorTolerance
+            );
+            if (!hotspot) continue;
+
+            found.add(hotspot.title);
+            const i = (py * pixels.width + px) * 4;
+            for (let c = 0; c < 3; c++) {
+                data[i + c] = Math.round(hotspot.color[c] * overlayAlpha + data[i + c] * (1 - overlayAlpha));
+            }
+        }
+    }
+
+    return { pixels: { width: pixels.width, height: pixels.height, data }, hotspots: Array.from(found) };
+}
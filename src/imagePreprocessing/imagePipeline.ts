@@ -0,0 +1,134 @@
+import { PixelBuffer, fitWithin, toGrayScale, drawDot, viewDimension } from "../utils/raster/pixels";
+import { getRasterBackend } from "../utils/raster/rasterBackend";
+import { imageToBase64, base64ToBlob } from "../utils/dataUrl";
+import { ProcessedImages, hashImages, getProcessedImages, putProcessedImages } from "./processedImageCache";
+import { DetailImage, ImageSettings, PreparedImages } from "./preprocessorMessages";
+import { DetailHotspot, cropDetail, viewToOriginal } from "./detailImage";
+import { EncodingBudget, encodeWithinBudget } from "./sizeBudgetEncoder";
+
+// runs in the preprocessing worker, or on the main thread where workers cannot draw
+
+const minDimension: number = 200; // pixel
+
+const detailBudget: EncodingBudget = {
+    maxKB: 150,
+    maxDimension: 512, // pixel
+    minDimension: 128 // pixel
+};
+
+// original images of the last drawings, decoded only when a detail is requested
+type Originals = {
+    template: string; // base64
+    colorMap: string; // base64
+    decoded: Promise<{ template: PixelBuffer, colorMap: PixelBuffer }> | null;
+};
+const originals = new Map<string, Originals>();
+const maxOriginalsInMemory: number = 3;
+
+// --------------------
+// DRAWING PREPARATION
+// --------------------
+
+export async function prepareImages(template: string, colorMap: string, settings: ImageSettings): Promise<ProcessedImages> {
+    const budget: EncodingBudget = { maxKB: settings.maxKB, maxDimension: settings.maxDimension, minDimension };
+    const key = await hashImages(template, colorMap, settings);
+    rememberOriginals(key, template, colorMap);
+
+    const cached = await getProcessedImages(key);
+    if (cached) return cached;
+
+    const templatePixels = await decode(template);
+    const encodedTemplate = await encodeWithinBudget(templatePixels, budget);
+    const encodedColorMap = await encodeWithinBudget(await decode(colorMap), budget);
+
+    if (!encodedTemplate) throw new Error(`The template image does not fit in ${budget.maxKB} KB`);
+    if (!encodedColorMap) throw new Error(`The color map image does not fit in ${budget.maxKB} KB`);
+
+    // the gray scale copy is made from the image the model receives, so that coordinates match
+    const grayScale = toGrayScale(await getRasterBackend().decode(encodedTemplate.blob));
+
+    // the coordinates are the ones of the position view, the model may get a smaller or larger template
+    const viewSize = fitWithin(templatePixels.width, templatePixels.height, viewDimension);
+
+    const images: ProcessedImages = {
+        key,
+        template: await imageToBase64(encodedTemplate.blob),
+        colorMap: await imageToBase64(encodedColorMap.blob),
+        grayScale,
+        coordinateScale: grayScale.width / viewSize.width,
+        reports: { template: encodedTemplate.report, colorMap: encodedColorMap.report }
+    };
+
+    await putProcessedImages(images);
+    return images;
+}
+
+// what the main thread needs, the decoded gray scale template stays here
+export function toPreparedImages(images: ProcessedImages): PreparedImages {
+    return {
+        key: images.key,
+        template: images.template,
+        colorMap: images.colorMap,
+        dimensions: { x: images.grayScale.width, y: images.grayScale.height },
+        reports: images.reports
+    };
+}
+
+async function decode(base64Image: string): Promise<PixelBuffer> {
+    try {
+        return await getRasterBackend().decode(base64ToBlob(base64Image));
+    } catch (err) {
+        throw new Error('Image processing failed: ' + (err as Error).message);
+    }
+}
+
+// -----------------
+// POINTED POSITION
+// -----------------
+
+// the gray scale template stays decoded, only the dot is drawn and encoded
+export async function drawPointedPositionOn(key: string, x: number, y: number, radius: number): Promise<string> {
+    const images = await getProcessedImages(key);
+    if (!images) throw new Error("Gray scale image template missing");
+
+    const scale = images.coordinateScale;
+    const withDot: PixelBuffer = drawDot(images.grayScale, x * scale, y * scale, Math.max(3, radius * scale));
+    return imageToBase64(await getRasterBackend().encode(withDot, "image/webp"));
+}
+
+// -------------
+// DETAIL IMAGE
+// -------------
+
+// high resolution crop of the original template around the pointed position (coordinates of the position view)
+export async function createDetailImage(key: string, x: number, y: number, hotspots: DetailHotspot[] | null): Promise<DetailImage> {
+    const { template, colorMap } = await getDecodedOriginals(key);
+
+    const point = viewToOriginal(x, y, template, viewDimension);
+    const crop = cropDetail(template, colorMap, point.x, point.y, hotspots);
+
+    const encoded = await encodeWithinBudget(crop.pixels, detailBudget);
+    if (!encoded) throw new Error(`The detail image does not fit in ${detailBudget.maxKB} KB`);
+
+    return { image: await imageToBase64(encoded.blob), hotspots: crop.hotspots };
+}
+
+function rememberOriginals(key: string, template: string, colorMap: string): void {
+    if (originals.has(key)) return;
+
+    originals.set(key, { template, colorMap, decoded: null });
+    if (originals.size > maxOriginalsInMemory) originals.delete(originals.keys().next().value!); // the oldest
+}
+
+async function getDecodedOriginals(key: string): Promise<{ template: PixelBuffer, colorMap: PixelBuffer }> {
+    const entry = originals.get(key);
+    if (!entry) throw new Error("Original template not available");
+
+    if (!entry.decoded) {
+        entry.decoded = Promise.all([decode(entry.template), decode(entry.colorMap)])
+            .then(([template, colorMap]) => ({ template, colorMap }));
+        entry.decoded.catch(() => entry.decoded = null);
+    }
+
+    return entry.decoded;
+}
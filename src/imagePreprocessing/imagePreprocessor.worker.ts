@@ -0,0 +1,29 @@
+import { prepareImages, drawPointedPositionOn, toPreparedImages, createDetailImage } from "./imagePipeline";
+import { PreprocessorRequest, PreprocessorResponse } from "./preprocessorMessages";
+
+self.onmessage = async (e: MessageEvent<PreprocessorRequest>) => {
+    const request = e.data;
+    let response: PreprocessorResponse;
+
+    try {
+        switch (request.type) {
+            case "prepare":
+                const images = await prepareImages(request.template, request.colorMap, request.settings);
+                response = { id: request.id, result: toPreparedImages(images) };
+                break;
+
+            case "drawPointedPosition":
+                response = { id: request.id, result: await drawPointedPositionOn(request.key, request.x, request.y, request.radius) };
+                break;
+
+            case "detail":
+                response = { id: request.id, result: await createDetailImage(request.key, request.x, request.y, request.hotspots) };
+                break;
+        }
+
+    } catch (err) {
+        response = { id: request.id, error: (err as Error).message ?? String(err) };
+    }
+
+    self.postMessage(response);
+};
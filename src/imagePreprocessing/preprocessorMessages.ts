@@ -0,0 +1,39 @@
+import { EncodingReport } from "./sizeBudgetEncoder";
+import { DetailHotspot } from "./detailImage";
+
+// messages between ImagePreprocessor and the preprocessing worker
+
+// limits of the template and color map sent to the model (session settings)
+export type ImageSettings = {
+    maxKB: number;
+    maxDimension: number; // pixel
+};
+
+export type PreprocessorRequest =
+    | { id: number, type: "prepare", template: string, colorMap: string, settings: ImageSettings }
+    | { id: number, type: "drawPointedPosition", key: string, x: number, y: number, radius: number }
+    | { id: number, type: "detail", key: string, x: number, y: number, hotspots: DetailHotspot[] | null };
+
+export type PreparedImages = {
+    key: string;
+    template: string; // base64
+    colorMap: string; // base64
+    dimensions: { x: number, y: number };
+    reports: { template: EncodingReport, colorMap: EncodingReport };
+};
+
+export type DetailImage = {
+    image: string; // base64
+    hotspots: string[]; // titles of the hotspots inside the detail
+};
+
+// result of every request type
+export type PreprocessorResults = {
+    prepare: PreparedImages;
+    drawPointedPosition: string; // base64
+    detail: DetailImage;
+};
+
+export type PreprocessorResponse =
+    | { id: number, result: PreprocessorResults[PreprocessorRequest["type"]] }
+    | { id: number, error: string };
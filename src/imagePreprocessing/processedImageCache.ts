@@ -0,0 +1,151 @@
+import { PixelBuffer } from "../utils/raster/pixels";
+import { EncodingReport } from "./sizeBudgetEncoder";
+import { ImageSettings } from "./preprocessorMessages";
+
+// images of a drawing ready to be sent to the model
+export type ProcessedImages = {
+    key: string; // hash of the original template and color map, and of the image settings
+    template: string; // base64
+    colorMap: string; // base64
+    grayScale: PixelBuffer; // decoded gray scale template, the pointed position is drawn on it
+    coordinateScale: number; // from the coordinates of the position view to the gray scale template
+    reports: { template: EncodingReport, colorMap: EncodingReport };
+};
+
+// every entry keeps megabytes of raw pixels, only the least recently used ones are kept
+type StoredImages = ProcessedImages & { lastUsed: number };
+
+const dbName = "camio-image-cache";
+const storeName = "processedImages";
+const lastUsedIndex = "lastUsed";
+const dbVersion = 3; // 2: size-budgeted encoder, 3: least recently used eviction
+
+const maxMemoryEntries = 4;
+const maxStoredEntries = 8;
+
+const memoryCache = new Map<string, ProcessedImages>(); // in order of use, the least recent first
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+// -----
+// KEYS
+// -----
+
+// same files and settings --> same key, whatever the name of the drawing
+export async function hashImages(template: string, colorMap: string, settings: ImageSettings): Promise<string> {
+    const bytes = new TextEncoder().encode(template + "\n" + colorMap + "\n" + settings.maxKB + "\n" + settings.maxDimension);
+    const digest = await crypto.subtle.digest("SHA-256", bytes);
+
+    return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+// -------------
+// CACHE ACCESS
+// -------------
+
+export async function getProcessedImages(key: string): Promise<ProcessedImages | null> {
+    const cached = memoryCache.get(key);
+    if (cached) {
+        keepInMemory(cached);
+        return cached;
+    }
+
+    const stored = await readFromDb(key);
+    if (!stored) return null;
+
+    const { lastUsed, ...images } = stored;
+    keepInMemory(images);
+    await writeToDb(images); // marked as used
+
+    return images;
+}
+
+export async function putProcessedImages(images: ProcessedImages): Promise<void> {
+    keepInMemory(images);
+    await writeToDb(images);
+}
+
+function keepInMemory(images: ProcessedImages): void {
+    memoryCache.delete(images.key);
+    memoryCache.set(images.key, images);
+
+    while (memoryCache.size > maxMemoryEntries) {
+        memoryCache.delete(memoryCache.keys().next().value!);
+    }
+}
+
+// ----------
+// INDEXEDDB
+// ----------
+
+// the cache is only an optimization: without IndexedDB (e.g. private browsing) the memory cache is used
+function openDb(): Promise<IDBDatabase | null> {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve) => {
+            if (typeof indexedDB === "undefined") return resolve(null);
+
+            const request = indexedDB.open(dbName, dbVersion);
+            // images encoded by an older version are dropped
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (db.objectStoreNames.contains(storeName)) db.deleteObjectStore(storeName);
+                db.createObjectStore(storeName, { keyPath: "key" }).createIndex(lastUsedIndex, "lastUsed");
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                console.warn("Image cache not available:", request.error);
+                resolve(null);
+            };
+        });
+    }
+
+    return dbPromise;
+}
+
+async function readFromDb(key: string): Promise<StoredImages | null> {
+    const db = await openDb();
+    if (!db) return null;
+
+    return new Promise((resolve) => {
+        const request = db.transaction(storeName, "readonly").objectStore(storeName).get(key);
+        request.onsuccess = () => resolve(request.result ?? null);
+        request.onerror = () => resolve(null);
+    });
+}
+
+async function writeToDb(images: ProcessedImages): Promise<void> {
+    const db = await openDb();
+    if (!db) return;
+
+    return new Promise((resolve) => {
+        const transaction = db.transaction(storeName, "readwrite");
+        const store = transaction.objectStore(storeName);
+        const stored: StoredImages = { ...images, lastUsed: Date.now() };
+        store.put(stored);
+        evictLeastRecentlyUsed(store);
+
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => {
+            console.warn("Image cache write failed:", transaction.error);
+            resolve();
+        };
+    });
+}
+
+// deletes the oldest entries beyond maxStoredEntries, in the same transaction of the write
+function evictLeastRecentlyUsed(store: IDBObjectStore): void {
+    const countRequest = store.count();
+    countRequest.onsuccess = () => {
+        let excess = countRequest.result - maxStoredEntries;
+        if (excess <= 0) return;
+
+        const cursorRequest = store.index(lastUsedIndex).openKeyCursor();
+        cursorRequest.onsuccess = () => {
+            const cursor = cursorRequest.result;
+            if (!cursor || excess <= 0) return;
+
+            store.delete(cursor.primaryKey);
+            excess--;
+            cursor.continue();
+        };
+    };
+}
@@ -0,0 +1,140 @@
+import { PixelBuffer, fitWithin } from "../utils/raster/pixels";
+import { getRasterBackend, RasterFormat } from "../utils/raster/rasterBackend";
+
+export type EncodingBudget = {
+    maxKB: number;
+    maxDimension: number; // pixel, long side
+    minDimension: number; // pixel, long side, below it the image is not worth sending
+};
+
+export type EncodingReport = {
+    format: RasterFormat;
+    width: number;
+    height: number;
+    sizeKB: number;
+    quality: number | null; // null for lossless
+    flatColor: boolean;
+};
+
+export type EncodedImage = {
+    blob: Blob;
+    report: EncodingReport;
+};
+
+const scaleStep: number = 0.75; // resolution fallback
+const qualitySearchSteps: number = 6; // quality precision ~0.015
+
+// ---------
+// ENCODING
+// ---------
+
+// best quality within the budget: lossless for flat color images (e.g. color maps),
+// webp with the highest quality that fits otherwise, then lower resolutions
+export async function encodeWithinBudget(pixels: PixelBuffer, budget: EncodingBudget): Promise<EncodedImage | null> {
+    const backend = getRasterBackend();
+    const flatColor = isFlatColor(pixels);
+
+    let { width, height } = fitWithin(pixels.width, pixels.height, budget.maxDimension);
+
+    while (Math.max(width, height) >= budget.minDimension) {
+        // smoothing would blend the flat colors, creating colors of no hotspot
+        const resized = await backend.resize(pixels, width, height, !flatColor);
+
+        const encoded = flatColor ? await encodeLossless(resized, budget.maxKB) : await encodeLossy(resized, budget.maxKB, false);
+        if (encoded) return encoded;
+
+        width = Math.round(width * scaleStep);
+        height = Math.round(height * scaleStep);
+    }
+
+    // last resort for flat color images: lossy at the smallest resolution
+    if (flatColor) {
+        const minSize = fitWithin(pixels.width, pixels.height, budget.minDimension);
+        const resized = await backend.resize(pixels, minSize.width, minSize.height, false);
+        const encoded = await encodeLossy(resized, budget.maxKB, true);
+        if (encoded) return encoded;
+    }
+
+    return null;
+}
+
+async function encodeLossless(pixels: PixelBuffer, maxKB: number): Promise<EncodedImage | null> {
+    const blob = await getRasterBackend().encode(pixels, "image/png");
+    if (!fits(blob, maxKB)) return null;
+
+    return { blob, report: createReport(blob, pixels, "image/png", null, true) };
+}
+
+// binary search of the highest webp quality that fits
+async function encodeLossy(pixels: PixelBuffer, maxKB: number, flatColor: boolean): Promise<EncodedImage | null> {
+    const backend = getRasterBackend();
+
+    const encode = async (quality: number) => ({ quality, blob: await backend.encode(pixels, "image/webp", quality) });
+
+    let best = await encode(0);
+    if (!fits(best.blob, maxKB)) return null;
+
+    const top = await encode(1);
+    if (fits(top.blob, maxKB)) {
+        best = top;
+    } else {
+        let low = 0, high = 1;
+        for (let i = 0; i < qualitySearchSteps; i++) {
+            const attempt = await encode((low + high) / 2);
+            if (fits(attempt.blob, maxKB)) {
+                best = attempt;
+                low = attempt.quality;
+            } else {
+                high = attempt.quality;
+            }
+        }
+    }
+
+    return { blob: best.blob, report: createReport(best.blob, pixels, "image/webp", best.quality, flatColor) };
+}
+
+function fits(blob: Blob, maxKB: number): boolean {
+    return blob.size / 1024 <= maxKB;
+}
+
+function createReport(blob: Blob, pixels: PixelBuffer, format: RasterFormat, quality: number | null, flatColor: boolean): EncodingReport {
+    // the browser may fall back to png when webp encoding is not supported
+    const actualFormat = (blob.type || format) as RasterFormat;
+    return { format: actualFormat, width: pixels.width, height: pixels.height, sizeKB: blob.size / 1024, quality, flatColor };
+}
+
+// -----------
+// FLAT COLOR
+// -----------
+
+// few colors cover almost every pixel (the rest are antialiased borders)
+export function isFlatColor(pixels: PixelBuffer, maxColors: number = 64, minCoverage: number = 0.95): boolean {
+    const counts = new Map<number, number>();
+    const totalPixels = pixels.width * pixels.height;
+    const stride = Math.max(1, Math.floor(totalPixels / 100000)); // ~100k samples are enough
+
+    let samples = 0;
+    for (let p = 0; p < totalPixels; p += stride) {
+        const i = p * 4;
+        const color = ((pixels.data[i] << 24) | (pixels.data[i + 1] << 16) | (pixels.data[i + 2] << 8) | pixels.data[i + 3]) >>> 0;
+        counts.set(color, (counts.get(color) ?? 0) + 1);
+        samples++;
+    }
+
+    const topCounts = Array.from(counts.values()).sort((a, b) => b - a).slice(0, maxColors);
+    const covered = topCounts.reduce((sum, count) => sum + count, 0);
+
+    return samples > 0 && covered / samples >= minCoverage;
+}
+
+// ------------
+// DIAGNOSTICS
+// ------------
+
+// same format of showBlobTypeDimSize
+export function formatEncodingReport(imageType: string, report: EncodingReport): string {
+    const quality = report.quality === null ? "lossless" : `quality ${report.quality.toFixed(2)}`;
+    const content = report.flatColor ? "flat color" : "continuous tone";
+
+    return `[${imageType} image] Type: ${report.format}, Dimensions: ${report.width}x${report.height}px, Size: ${report.sizeKB.toFixed(2)} KB (${quality}, ${content})`;
+}
@@ -1,25 +1,26 @@
-import { camioFileName } from "../camioFileName";
+import { loadCamioDrawing } from "../camioDrawing/CamioDrawing";
+import { HotspotResolver } from "../hotspotDetection/HotspotResolver";
+import { PositionDescriber } from "../positionDescription/PositionDescriber";
+import { HotspotSoundPlayer } from "../hotspotSounds/HotspotSoundPlayer";
+import { HotspotInspector } from "../hotspotInspector/HotspotInspector";
+import { SessionSettingsPanel } from "../sessionSettings/SessionSettingsPanel";
 import {
     imageToBase64,
     base64ToBlob,
     reduceResolution,
+    viewDimension,
     getImgDimensions,
     drawPointedPosition
 } from '../utils/utils';
 
-type Hotspot = {
-    color: [number, number, number, number];
-    title: string;
-    description: string;
-    sound: string;
-};
-
 interface UIElements {
     coordContainer: HTMLElement;
     xCoord: HTMLInputElement;
     yCoord: HTMLInputElement;
     hotspotSelect: HTMLSelectElement;
+    hotspotOverride: HTMLInputElement;
     imgTemplateContainer: HTMLElement;
+    pointingStatus: HTMLElement;
 }
 
 export class PositionView {
@@ -29,6 +30,11 @@ export class PositionView {
 
     private base64Template: string | null = null;
 
+    private lastHotspot: string | null = null;
+    private dragging: boolean = false;
+    private imageViewUpdating: boolean = false;
+    private imageViewOutdated: boolean = false;
+
     // ---------------
     // INITIALIZATION
     // ---------------
@@ -47,19 +53,45 @@ export class PositionView {
         this.initializeUIElements();
         if (!this.elements) return console.error("UI elements not initialized");
 
-        this.base64Template = await this.getReducedTemplate();
-        this.setInputCoordsMaxLimits(this.base64Template);
-        this.populateHotspotSelect();
-        this.updateImageView();
+        HotspotInspector.getInstance().init();
+        await this.loadDrawing();
 
         this.elements.xCoord.oninput = async () => {
             this.enforceInputMinMax(this.elements!.xCoord);
-            this.updateImageView();
+            this.requestImageViewUpdate();
         };
         this.elements.yCoord.oninput = () => {
             this.enforceInputMinMax(this.elements!.yCoord);
+            this.requestImageViewUpdate();
+        };
+        this.elements.hotspotOverride.onchange = () => {
+            this.updateHotspotOverride();
             this.updateImageView();
         };
+        this.elements.hotspotSelect.onchange = () => {
+            HotspotInspector.getInstance().showHotspot(this.getPointedHotspot());
+        };
+
+        this.initImagePointing();
+    }
+
+    // (re)loads the template and the hotspots of the current drawing
+    public async loadDrawing(): Promise<void> {
+        if (!this.elements) return console.error("UI elements not initialized");
+
+        this.elements.xCoord.value = "";
+        this.elements.yCoord.value = "";
+        this.lastHotspot = null;
+        HotspotSoundPlayer.getInstance().reset();
+
+        this.base64Template = await this.getReducedTemplate();
+        await this.setInputCoordsMaxLimits(this.base64Template);
+        await this.populateHotspotSelect();
+        await HotspotResolver.getInstance().init();
+        await PositionDescriber.getInstance().init();
+        await HotspotInspector.getInstance().loadDrawing();
+        this.updateHotspotOverride();
+        await this.updateImageView();
     }
 
     private initializeUIElements(): void {
@@ -68,7 +100,9 @@ export class PositionView {
             xCoord: document.getElementById("xCoord") as HTMLInputElement,
             yCoord: document.getElementById("yCoord") as HTMLInputElement,
             hotspotSelect: document.getElementById("hotspotSelect") as HTMLSelectElement,
-            imgTemplateContainer: document.getElementById("imgTemplateContainer") as HTMLElement
+            hotspotOverride: document.getElementById("hotspotOverride") as HTMLInputElement,
+            imgTemplateContainer: document.getElementById("imgTemplateContainer") as HTMLElement,
+            pointingStatus: document.getElementById("pointingStatus") as HTMLElement
         }
     }
 
@@ -77,36 +111,21 @@ export class PositionView {
     // ----------
 
     private async getReducedTemplate(): Promise<string> {
-        const firstTemplate = await this.getFileTemplate();
+        const firstTemplate = (await loadCamioDrawing()).template;
         const firstTemplateBlob = base64ToBlob(firstTemplate);
-        const reducedDimTemplateBlob = await reduceResolution(firstTemplateBlob);
+        const reducedDimTemplateBlob = await reduceResolution(firstTemplateBlob, viewDimension);
         return await imageToBase64(reducedDimTemplateBlob);
     }
 
-    private async getFileTemplate(): Promise<string> {
-        const path = "/" + camioFileName + "/template.png";
-        const response = await fetch(path);
-        if (!response.ok) throw new Error(`Cannot fetch ${path}`);
-        const blob = await response.blob();
-        return await imageToBase64(blob);
-    }
-
     // -------------
     // GET HOTSPOTS
     // -------------
 
-    private async getFileData(): Promise<any> {
-        const path = "/" + camioFileName + "/data.json";
-        const response = await fetch(path);
-        if (!response.ok) throw new Error(`Cannot fetch ${path}`);
-        return await response.json();
-    }
-
     private async getHotspotsTitle(): Promise<string[]> {
-        const data = await this.getFileData();
+        const { data } = await loadCamioDrawing();
 
         let titles: string[] = [];
-        data.hotspots.forEach((element: Hotspot) => {
+        data.hotspots.forEach((element) => {
             titles.push(element.title);
         });
 
@@ -133,6 +152,38 @@ export class PositionView {
         });
     }
 
+    // ------------------
+    // HOTSPOT DETECTION
+    // ------------------
+
+    // the select follows the detected hotspot, unless the user explicitly overrides it
+    private updateHotspotOverride(): void {
+        if (!this.elements) return console.error("UI elements not initialized");
+
+        this.elements.hotspotSelect.disabled = !this.isHotspotOverridden();
+    }
+
+    private isHotspotOverridden(): boolean {
+        if (!this.elements) return false;
+        return this.elements.hotspotOverride.checked;
+    }
+
+    private syncHotspotSelect(x: number | null, y: number | null): void {
+        if (!this.elements) return console.error("UI elements not initialized");
+        if (this.isHotspotOverridden()) return;
+
+        const hotspot = HotspotResolver.getInstance().getHotspotAt(x, y);
+        this.elements.hotspotSelect.value = hotspot ?? "null";
+    }
+
+    private notifyHotspotChange(): void {
+        const hotspot = this.getPointedHotspot();
+        if (hotspot === this.lastHotspot) return;
+
+        this.lastHotspot = hotspot;
+        HotspotSoundPlayer.getInstance().onHotspotEntered(hotspot);
+    }
+
     // ---------------------
     // NUMERIC INPUT LIMITS
     // ---------------------
@@ -158,10 +209,180 @@ export class PositionView {
         input.valueAsNumber = value;
     }
 
+    // ----------------------
+    // POINTING ON THE IMAGE
+    // ----------------------
+
+    private initImagePointing(): void {
+        if (!this.elements) return console.error("UI elements not initialized");
+
+        const container = this.elements.imgTemplateContainer;
+
+        // mouse, pen and touch
+        container.onpointerdown = (e: PointerEvent) => {
+            if (e.button !== 0) return;
+            this.dragging = true;
+            container.setPointerCapture(e.pointerId);
+            this.setCoordsFromPointer(e);
+        };
+        container.onpointermove = (e: PointerEvent) => {
+            if (this.dragging) this.setCoordsFromPointer(e);
+            this.showHoverTooltip(e);
+        };
+        container.onpointerleave = () => HotspotInspector.getInstance().hideTooltip();
+        container.onpointerup = (e: PointerEvent) => this.stopDragging(e);
+        container.onpointercancel = (e: PointerEvent) => this.stopDragging(e);
+
+        // keyboard
+        container.onkeydown = (e: KeyboardEvent) => this.handlePointingKeys(e);
+    }
+
+    private stopDragging(e: PointerEvent): void {
+        if (!this.elements) return console.error("UI elements not initialized");
+
+        this.dragging = false;
+        if (this.elements.imgTemplateContainer.hasPointerCapture(e.pointerId)) {
+            this.elements.imgTemplateContainer.releasePointerCapture(e.pointerId);
+        }
+    }
+
+    private setCoordsFromPointer(e: PointerEvent): void {
+        const coords = this.getImageCoords(e);
+        if (coords) this.setCoords(coords.x, coords.y);
+    }
+
+    private showHoverTooltip(e: PointerEvent): void {
+        if (!this.elements) return console.error("UI elements not initialized");
+
+        const coords = this.getImageCoords(e);
+        if (!coords) return HotspotInspector.getInstance().hideTooltip();
+
+        const rect = this.elements.imgTemplateContainer.getBoundingClientRect();
+        HotspotInspector.getInstance().showTooltip(coords.x, coords.y, e.clientX - rect.left, e.clientY - rect.top);
+    }
+
+    // the displayed image is scaled by CSS, coordinates refer to the natural size of the reduced template
+    private getImageCoords(e: PointerEvent): { x: number, y: number } | null {
+        if (!this.elements) return null;
+
+        const img = this.elements.imgTemplateContainer.querySelector("img");
+        if (!img) return null;
+
+        const rect = img.getBoundingClientRect();
+        if (rect.width === 0 || rect.height === 0) return null;
+
+        const x = Math.round((e.clientX - rect.left) * (img.naturalWidth / rect.width));
+        const y = Math.round((e.clientY - rect.top) * (img.naturalHeight / rect.height));
+
+        return { x, y };
+    }
+
+    // arrow keys move the pointed position (shift for bigger steps), Escape stops pointing
+    private handlePointingKeys(e: KeyboardEvent): void {
+        if (!this.elements) return console.error("UI elements not initialized");
+        if (!this.base64Template) return;
+
+        const step = e.shiftKey ? 10 : 1;
+        let dx = 0;
+        let dy = 0;
+
+        switch (e.key) {
+            case "ArrowLeft":
+                dx = -step;
+                break;
+
+            case "ArrowRight":
+                dx = step;
+                break;
+
+            case "ArrowUp":
+                dy = -step;
+                break;
+
+            case "ArrowDown":
+                dy = step;
+                break;
+
+            case "Escape":
+                e.preventDefault();
+                this.setCoords(null, null);
+                this.announcePointing(null, null);
+                return;
+
+            default:
+                return;
+        }
+
+        e.preventDefault();
+
+        let { x, y } = this.getPointedCoords();
+
+        // not pointing yet --> start from the center of the drawing
+        if (x === null || y === null) {
+            x = Math.round(parseInt(this.elements.xCoord.max) / 2);
+            y = Math.round(parseInt(this.elements.yCoord.max) / 2);
+        } else {
+            x += dx;
+            y += dy;
+        }
+
+        const coords = this.setCoords(x, y);
+        this.announcePointing(coords.x, coords.y);
+    }
+
+    private setCoords(x: number | null, y: number | null): { x: number | null, y: number | null } {
+        if (!this.elements) throw new Error("UI elements not initialized");
+
+        if (x === null || y === null) {
+            this.elements.xCoord.value = "";
+            this.elements.yCoord.value = "";
+        } else {
+            this.elements.xCoord.valueAsNumber = x;
+            this.elements.yCoord.valueAsNumber = y;
+            this.enforceInputMinMax(this.elements.xCoord);
+            this.enforceInputMinMax(this.elements.yCoord);
+        }
+
+        this.requestImageViewUpdate();
+        return this.getPointedCoords();
+    }
+
+    // screen readers read the new position from a live region
+    private announcePointing(x: number | null, y: number | null): void {
+        if (!this.elements) return console.error("UI elements not initialized");
+
+        if (x === null || y === null) {
+            this.elements.pointingStatus.textContent = "Not pointing";
+            return;
+        }
+
+        const hotspot = this.getPointedHotspot();
+        this.elements.pointingStatus.textContent = `x ${x}, y ${y}` + (hotspot ? `, ${hotspot}` : "");
+    }
+
     // -------------------------
     // SHOW IMAGE WITH POSITION
     // -------------------------
 
+    // coalesces the updates requested while the image is being drawn (e.g. while dragging)
+    private async requestImageViewUpdate(): Promise<void> {
+        if (this.imageViewUpdating) {
+            this.imageViewOutdated = true;
+            return;
+        }
+
+        this.imageViewUpdating = true;
+        try {
+            do {
+                this.imageViewOutdated = false;
+                await this.updateImageView();
+            } while (this.imageViewOutdated);
+
+        } finally {
+            this.imageViewUpdating = false;
+        }
+    }
+
     private async updateImageView(): Promise<void> {
         if (!this.elements) return console.error("UI elements not initialized");
         if (!this.base64Template) return;
@@ -169,18 +390,27 @@ export class PositionView {
         const x = Number.isNaN(this.elements.xCoord.valueAsNumber) ? null : this.elements.xCoord.valueAsNumber;
         const y = Number.isNaN(this.elements.yCoord.valueAsNumber) ? null : this.elements.yCoord.valueAsNumber;
 
-        const newImageView = await drawPointedPosition(this.base64Template, x, y);
+        this.syncHotspotSelect(x, y);
+        this.notifyHotspotChange();
+        HotspotInspector.getInstance().showHotspot(this.getPointedHotspot());
+
+        const newImageView = await drawPointedPosition(this.base64Template, x, y, SessionSettingsPanel.getInstance().getSettings().dotRadius);
         this.showImage(newImageView);
     }
 
     private showImage(base64Img: string): void {
         if (!this.elements) return console.error("UI elements not initialized");
 
-        this.elements.imgTemplateContainer.innerHTML = "";
+        // the hotspot overlay and tooltip stay on top of the image
+        let img = this.elements.imgTemplateContainer.querySelector("img");
+        if (!img) {
+            img = document.createElement("img");
+            img.alt = "";
+            img.draggable = false;
+            this.elements.imgTemplateContainer.prepend(img);
+        }
 
-        const img = document.createElement("img");
         img.src = base64Img;
-        this.elements.imgTemplateContainer.appendChild(img);
     }
 
     // ------------------------
@@ -205,6 +435,11 @@ export class PositionView {
         if (!this.elements) throw new Error("UI elements not initialized");
         if (!this.base64Template) throw new Error("Image template missing");
 
+        if (!this.isHotspotOverridden()) {
+            const { x, y } = this.getPointedCoords();
+            return HotspotResolver.getInstance().getHotspotAt(x, y);
+        }
+
         return (this.elements.hotspotSelect.value === "null") ? null : this.elements.hotspotSelect.value;
     }
 }
\ No newline at end of file
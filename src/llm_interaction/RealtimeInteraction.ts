@@ -1,56 +1,93 @@
-import { camioFileName } from "../camioFileName";
+import { getDataJsonText, loadCamioDrawing } from "../camioDrawing/CamioDrawing";
+import { CamioOptions, defaultCamioOptions } from "../camioDrawing/camioSchema";
 import { getEphemeralKey } from "../ephemeralKey/getEphemeralKey";
-import createSessionConfig from "./sessionConfig";
+import createSessionConfig, { createAudioConfig } from "./sessionConfig";
+import { RealtimeMessage, RealtimeTransport, TransportStatus, TransportType, getRealtimeWebSocketUrl } from "./transport/RealtimeTransport";
+import { WebRTCTransport } from "./transport/WebRTCTransport";
+import { WebSocketTransport } from "./transport/WebSocketTransport";
+import { HotspotResolver } from "../hotspotDetection/HotspotResolver";
+import { PositionDescriber } from "../positionDescription/PositionDescriber";
+import { HotspotSoundPlayer } from "../hotspotSounds/HotspotSoundPlayer";
+import { LocalSpeechSynthesizer } from "../speechSynthesis/LocalSpeechSynthesizer";
+import { ImagePreprocessor } from "../imagePreprocessing/ImagePreprocessor";
+import { formatEncodingReport } from "../imagePreprocessing/sizeBudgetEncoder";
+import { ConversationTranscript } from "../transcript/ConversationTranscript";
+import { SessionRecorder } from "../sessionRecording/SessionRecorder";
+import { RecordingTransport } from "../sessionRecording/RecordingTransport";
+import { SessionMetrics } from "../sessionMetrics/SessionMetrics";
+import { PositionUpdateKind, eventBytes } from "../sessionMetrics/metricsSummary";
+import { SessionSettingsPanel } from "../sessionSettings/SessionSettingsPanel";
+import { SessionSettings, defaultSessionSettings, getChangedSettings } from "../sessionSettings/sessionSettings";
+import { ImageSettings } from "../imagePreprocessing/preprocessorMessages";
+import { getCamioFileName } from "../camioFileName";
 import {
-    imageToBase64,
-    base64ToBlob,
-    showBlobTypeDimSize,
-    checkBlobSize,
-    toWebp,
-    reduceResolution,
-    getImgDimensions,
-    compressWebpBlob,
     mapLangCodeToName,
-    drawPointedPosition,
-    base64ToGrayScale
+    mapLangCodeToSessionLang
 } from '../utils/utils';
 
-type RealtimeMessage = {
-    type: string;
-    event_id: string;
-    [key: string]: any; // allows for other unknown properties
-};
+// how the pointed position is sent to the model
+type PositionMode = "image" | "text";
+
+// content of a message sent to the model
+type MessageContent =
+    | { type: "input_text", text: string }
+    | { type: "input_image", image_url: string };
 
 interface UIElements {
     startBtn: HTMLButtonElement;
     stopBtn: HTMLButtonElement;
     sessionState: HTMLElement;
     audioState: HTMLElement;
+    localSpeechToggle: HTMLInputElement;
     modelResponse: HTMLElement;
     xCoord: HTMLInputElement;
     yCoord: HTMLInputElement;
     hotspotSelect: HTMLSelectElement;
+    hotspotOverride: HTMLInputElement;
+    transportSelect: HTMLSelectElement;
+    positionModeSelect: HTMLSelectElement;
+    askHotspotBtn: HTMLButtonElement;
+    pushToTalkBtn: HTMLButtonElement;
 }
 
 export class RealtimeInteraction {
     private static instance: RealtimeInteraction | null = null;
 
-    private peerConnection: RTCPeerConnection | null = null;
-    private audioElement: HTMLAudioElement | null = null;
+    private transport: RealtimeTransport | null = null;
     private localStream: MediaStream | null = null;
-    private dataChannel: RTCDataChannel | null = null;
 
     private ephemeralKey: string | null = null;
     private elements: UIElements | null = null;
 
     private audioResponsesOn: boolean = false;
 
-    private requestStartTime: number | null = null;
-    private responseStarted: boolean = false;
+    private sessionActive: boolean = false; // true from the start to the stop of the session, even while reconnecting
+    private reconnecting: boolean = false;
+    private reconnectAttempts: number = 0;
+    private reconnectTimer: number | null = null;
+    private readonly maxReconnectAttempts: number = 5;
+    private readonly reconnectBaseDelay: number = 1000; // ms, doubled at every attempt
+    private sessionCreatedTimer: number | null = null;
+    private readonly sessionCreatedTimeout: number = 15000; // ms
+
+    private conversationHistory: { role: "user" | "assistant", text: string, itemId?: string }[] = []; // itemId: spoken question, text from its transcription
+    private readonly maxHistoryTurns: number = 20;
+
+    private options: CamioOptions = { ...defaultCamioOptions }; // options block of data.json
+    private langCode: string = "en-US";
 
-    private grayScaleBase64Template: string | null = null;
+    private preparedImagesKey: string | null = null; // gray scale template kept by the image preprocessor
     private lastCoords: { lastX: number | null, lastY: number | null } = { lastX: 100000, lastY: 100000 }; // 100000 are only placeholders
+    private lastHotspot: string | null = null;
     private imgDimensions: { x: number; y: number } = { x: -1, y: -1 }; // -1 are only placeholders
+    private positionMode: PositionMode = "image"; // fixed for the whole session, to compare the two modes
+    private settings: SessionSettings = { ...defaultSessionSettings }; // taken at the session start, then only the live changes
+    private modelAudioPlayed: boolean = false; // the voice cannot change after that
+    private responseInProgress: boolean = false;
+
+    private talking: boolean = false; // push-to-talk held down
+    private talkStartTime: number = 0;
+    private readonly minTalkMs: number = 300; // shorter presses are discarded, the server rejects almost empty buffers
 
     // ---------------
     // INITIALIZATION
@@ -72,9 +109,16 @@ export class RealtimeInteraction {
 
         this.elements.startBtn.onclick = () => this.startSession();
         this.elements.stopBtn.onclick = () => this.stopSession();
+        this.elements.askHotspotBtn.onclick = () => this.askAboutPointedHotspot();
+        this.initPushToTalk();
+        this.elements.localSpeechToggle.onchange = () => {
+            if (!this.isLocalSpeechOn()) LocalSpeechSynthesizer.getInstance().cancel();
+        };
+        this.elements.localSpeechToggle.disabled = !LocalSpeechSynthesizer.getInstance().isSupported();
 
         this.handleSessionState(false);
         this.handleAudioState(false);
+        this.loadDrawingOptions();
     }
 
     private initializeUIElements(): void {
@@ -83,10 +127,16 @@ export class RealtimeInteraction {
             stopBtn: document.getElementById("stopBtn") as HTMLButtonElement,
             sessionState: document.getElementById("sessionState") as HTMLElement,
             audioState: document.getElementById("audioState") as HTMLElement,
+            localSpeechToggle: document.getElementById("localSpeechToggle") as HTMLInputElement,
             modelResponse: document.getElementById("modelResponse") as HTMLElement,
             xCoord: document.getElementById("xCoord") as HTMLInputElement,
             yCoord: document.getElementById("yCoord") as HTMLInputElement,
-            hotspotSelect: document.getElementById("hotspotSelect") as HTMLSelectElement
+            hotspotSelect: document.getElementById("hotspotSelect") as HTMLSelectElement,
+            hotspotOverride: document.getElementById("hotspotOverride") as HTMLInputElement,
+            transportSelect: document.getElementById("transportSelect") as HTMLSelectElement,
+            positionModeSelect: document.getElementById("positionModeSelect") as HTMLSelectElement,
+            askHotspotBtn: document.getElementById("askHotspotBtn") as HTMLButtonElement,
+            pushToTalkBtn: document.getElementById("pushToTalkBtn") as HTMLButtonElement
         }
     }
 
@@ -95,49 +145,196 @@ export class RealtimeInteraction {
     // -----------------
 
     private async startSession(): Promise<void> {
-        this.ephemeralKey = await getEphemeralKey();
-        if (!this.ephemeralKey) return;
+        this.sessionActive = true;
+        this.reconnectAttempts = 0;
+        this.conversationHistory = [];
+        this.resetLastCoords();
 
-        console.log("Starting session");
+        this.positionMode = (this.elements?.positionModeSelect.value ?? "image") as PositionMode;
+        this.settings = SessionSettingsPanel.getInstance().getSettings();
+        this.modelAudioPlayed = false;
+        SessionSettingsPanel.getInstance().showPostponed([]);
 
-        if (!this.setupPeerConnection()) return;
-        if (!this.setupRemoteAudio()) return;
-        if (!(await this.setupLocalAudio())) return;
-        if (!this.setupDataChannel()) return;
-        await this.connectToModel();
+        console.log(`Starting session (pointed position as ${this.positionMode})`);
+        ConversationTranscript.getInstance().start(getCamioFileName(), this.getTransportType(), this.positionMode);
+        SessionRecorder.getInstance().start(getCamioFileName(), this.getTransportType(), this.positionMode);
+        SessionMetrics.getInstance().start(getCamioFileName());
+        await this.connect();
+    }
 
-        this.resetLastCoords();
+    private async connect(): Promise<void> {
+        // the mock server accepts any key
+        this.ephemeralKey = this.getTransportType() === "mock" ? "mock" : await getEphemeralKey(this.langCode, this.settings);
+        if (!this.ephemeralKey) {
+            if (this.reconnecting) return this.recoverSession("ephemeral key not available");
+            this.sessionActive = false;
+            return;
+        }
+
+        if (!(await this.setupLocalAudio())) return;
+        await this.connectTransport();
     }
 
     private stopSession(): void {
-        if (this.dataChannel) {
-            this.dataChannel.close();
-            this.dataChannel = null;
+        if (this.sessionActive) ConversationTranscript.getInstance().addSessionEvent("Session stopped");
+
+        this.sessionActive = false;
+        this.reconnecting = false;
+        if (this.reconnectTimer !== null) {
+            clearTimeout(this.reconnectTimer);
+            this.reconnectTimer = null;
+        }
+
+        this.closeConnection();
+        SessionRecorder.getInstance().stop();
+
+        console.log("Session closed");
+        this.handleSessionState(false);
+        this.handleAudioState(false);
+    }
+
+    // closes the connection with the model, keeping the state of the session
+    private closeConnection(): void {
+        this.clearSessionCreatedTimer();
+
+        if (this.transport) {
+            this.transport.close();
+            this.transport = null;
         }
 
         if (this.localStream) {
             this.localStream.getTracks().forEach((t) => t.stop());
             this.localStream = null;
-            //this.logStatus("LocalStream", "closed");
+            this.logStatus("LocalStream", "closed");
         }
 
-        if (this.peerConnection) {
-            this.peerConnection.close();
-            this.peerConnection = null;
-            //this.logStatus("PeerConnection", "closed");
+        HotspotSoundPlayer.getInstance().setModelSpeaking(false);
+        LocalSpeechSynthesizer.getInstance().cancel();
+    }
+
+    // -------------
+    // RECONNECTION
+    // -------------
+
+    // closes the broken connection and opens a new one, with exponential backoff
+    private recoverSession(reason: string): void {
+        if (!this.sessionActive) return;
+        if (this.reconnectTimer !== null) return; // already scheduled
+
+        this.closeConnection();
+        this.reconnecting = true;
+        this.reconnectAttempts++;
+
+        if (this.reconnectAttempts > this.maxReconnectAttempts) {
+            console.error(`Reconnection failed after ${this.maxReconnectAttempts} attempts`);
+            return this.stopSession();
         }
 
-        if (this.audioElement) {
-            this.audioElement.pause();
-            this.audioElement.srcObject = null;
-            this.audioElement.remove();
-            this.audioElement = null;
-            //this.logStatus("AudioElement", "closed");
+        const delay = this.reconnectBaseDelay * 2 ** (this.reconnectAttempts - 1);
+        console.warn(`Connection lost (${reason}), reconnecting in ${delay} ms (attempt ${this.reconnectAttempts}/${this.maxReconnectAttempts})`);
+        ConversationTranscript.getInstance().addSessionEvent(`Connection lost (${reason}), reconnecting`);
+        this.handleReconnectingState();
+
+        this.reconnectTimer = window.setTimeout(() => {
+            this.reconnectTimer = null;
+            this.connect();
+        }, delay);
+    }
+
+    // the new session has already received the configuration and the drawing content (see "session.created")
+    private async resumeConversation(): Promise<void> {
+        if (!this.transport) return this.stopSession();
+
+        this.reconnecting = false;
+        this.reconnectAttempts = 0;
+        ConversationTranscript.getInstance().addSessionEvent("Reconnected");
+
+        if (this.audioResponsesOn) {
+            const enableAudioOutput = {
+                type: "session.update",
+                session: {
+                    type: "realtime",
+                    output_modalities: ["audio"],
+                }
+            }
+            this.transport.send(enableAudioOutput);
         }
 
-        console.log("Session closed");
-        this.handleSessionState(false);
-        this.handleAudioState(false);
+        this.sendConversationSummary();
+
+        if (this.hasLastCoords()) {
+            const { x, y } = this.getLastCoords();
+            const hotspot = this.lastHotspot;
+            try {
+                await this.sendPointedPosition(x, y, hotspot);
+            } catch (err) {
+                console.error(err);
+                this.sendPositionFallback(x, y, hotspot);
+            }
+        }
+
+        console.log("Session resumed");
+    }
+
+    // a connection that never gets "session.created" counts as a failed attempt
+    private startSessionCreatedTimer(): void {
+        this.clearSessionCreatedTimer();
+        this.sessionCreatedTimer = window.setTimeout(() => {
+            this.sessionCreatedTimer = null;
+            this.recoverSession("session not created");
+        }, this.sessionCreatedTimeout);
+    }
+
+    private clearSessionCreatedTimer(): void {
+        if (this.sessionCreatedTimer === null) return;
+        clearTimeout(this.sessionCreatedTimer);
+        this.sessionCreatedTimer = null;
+    }
+
+    // ---------------------
+    // CONVERSATION HISTORY
+    // ---------------------
+
+    private recordTurn(role: "user" | "assistant", text: string, itemId?: string): void {
+        this.conversationHistory.push({ role, text: text.trim(), itemId });
+        if (this.conversationHistory.length > this.maxHistoryTurns) this.conversationHistory.shift();
+    }
+
+    // the transcription of a spoken question comes after its commit, often after the response
+    private recordTranscription(itemId: string, transcript: string): void {
+        const turn = this.conversationHistory.find((t) => t.itemId === itemId);
+        if (turn) turn.text = transcript.trim();
+    }
+
+    private sendConversationSummary(): void {
+        if (!this.transport) return this.stopSession();
+        if (this.conversationHistory.length === 0) return;
+
+        // spoken questions without a transcription are left out
+        const turns = this.conversationHistory
+            .filter((turn) => turn.text !== "")
+            .map((turn) => (turn.role === "user" ? "User: " : "Assistant: ") + turn.text)
+            .join("\n");
+
+        const res = {
+            type: "conversation.item.create",
+            item: {
+                type: "message",
+                role: "user",
+                content: [
+                    {
+                        type: "input_text",
+                        text: `
+                            Summary of the conversation so far (the connection was restored, continue the conversation naturally and do not mention the interruption):
+                            ${turns}
+                            `
+                    }
+                ]
+            }
+        }
+
+        this.transport.send(res);
+        console.warn("Conversation summary sent to the model");
     }
 
     // ------------------
@@ -146,6 +343,7 @@ export class RealtimeInteraction {
 
     private resetLastCoords(): void {
         this.lastCoords = { lastX: 100000, lastY: 100000 }; // 100000 are only placeholders
+        this.lastHotspot = null;
     }
 
     // ------------
@@ -158,21 +356,43 @@ export class RealtimeInteraction {
         if (state) {
             this.elements.sessionState.textContent = "Session on";
             this.elements.sessionState.classList.add("stateOn");
-            this.elements.sessionState.classList.remove("stateOff");
+            this.elements.sessionState.classList.remove("stateOff", "stateReconnecting");
             this.elements.startBtn.disabled = true;
             this.elements.stopBtn.disabled = false;
+            this.elements.transportSelect.disabled = true;
+            this.elements.positionModeSelect.disabled = true;
+            this.elements.askHotspotBtn.disabled = false;
+            this.updatePushToTalkButton(true);
 
         } else {
             this.elements.modelResponse.textContent = "The model response will appear here...";
 
             this.elements.sessionState.textContent = "Session off";
             this.elements.sessionState.classList.add("stateOff");
-            this.elements.sessionState.classList.remove("stateOn");
+            this.elements.sessionState.classList.remove("stateOn", "stateReconnecting");
             this.elements.startBtn.disabled = false;
             this.elements.stopBtn.disabled = true;
+            this.elements.transportSelect.disabled = false;
+            this.elements.positionModeSelect.disabled = false;
+            this.elements.askHotspotBtn.disabled = true;
+            this.updatePushToTalkButton(false);
         }
     }
 
+    private handleReconnectingState(): void {
+        if (!this.elements) return console.error("UI elements not initialized");
+
+        this.elements.sessionState.textContent = "Reconnecting…";
+        this.elements.sessionState.classList.add("stateReconnecting");
+        this.elements.sessionState.classList.remove("stateOn", "stateOff");
+        this.elements.startBtn.disabled = true;
+        this.elements.stopBtn.disabled = false;
+        this.elements.transportSelect.disabled = true;
+        this.elements.positionModeSelect.disabled = true;
+        this.elements.askHotspotBtn.disabled = true;
+        this.updatePushToTalkButton(false);
+    }
+
     private handleAudioState(state: boolean): void {
         if (!this.elements) return console.error("UI elements not initialized");
 
@@ -190,9 +410,12 @@ export class RealtimeInteraction {
     // CONSOLE LOG
     // ------------
 
-    private logStatus(component: string, status: "ready" | "error" | "closed", detail?: string): void {
+    // "ready" and "closed" statuses are only logged in debug mode
+    private logStatus(component: string, status: TransportStatus, detail?: string): void {
         const prefix = '[' + component + ']';
 
+        if (status !== "error" && !this.options.debugMode) return;
+
         if (status === "ready") {
             console.log(prefix + ' Ready', detail ?? "");
         } else if (status === "closed") {
@@ -207,142 +430,140 @@ export class RealtimeInteraction {
     // CONNECTION SETUP
     // -----------------
 
-    private setupPeerConnection(): boolean {
-        this.peerConnection = new RTCPeerConnection();
-        if (!this.peerConnection) {
-            this.logStatus("PeerConnection", "error", "Failed initializing PeerConnection");
+    // captures microphone audio, handed to the transport
+    private async setupLocalAudio(): Promise<boolean> {
+        try {
+            this.localStream = await navigator.mediaDevices.getUserMedia({ audio: true });
+            this.logStatus("LocalStream", "ready");
+            return true;
+
+        } catch (err) {
+            if (err instanceof Error) {
+                this.logStatus("LocalStream", "error", err.message);
+            } else {
+                this.logStatus("LocalStream", "error", String(err));
+            }
             this.stopSession();
             return false;
         }
-
-        //this.logStatus("PeerConnection", "ready");
-        return true;
     }
 
-    // captures audio sent by the model and plays it back
-    private setupRemoteAudio(): boolean {
-        if (!this.peerConnection) {
-            this.logStatus("RemoteAudio", "error", "PeerConnection not available");
-            this.stopSession();
-            return false;
-        }
+    private createTransport(): RealtimeTransport {
+        const handlers = {
+            onMessage: (msg: RealtimeMessage) => this.handleModelMessages(msg),
+            onConnectionLost: (reason: string) => this.recoverSession(reason),
+            onStatus: (component: string, status: TransportStatus, detail?: string) => this.logStatus(component, status, detail)
+        };
 
-        this.audioElement = document.createElement("audio");
-        document.body.appendChild(this.audioElement);
-        this.audioElement.autoplay = true;
+        const type = this.getTransportType();
+        console.log("Transport: " + type);
 
-        this.peerConnection.ontrack = (e) => {
-            this.audioElement!.srcObject = e.streams[0] ?? null;
+        switch (type) {
+            case "websocket":
+                return new WebSocketTransport(handlers, getRealtimeWebSocketUrl(this.settings.model));
 
-            this.audioElement!.onloadedmetadata = () => {
-                //this.logStatus("RemoteAudio", "ready");
-            }
+            // local stand-in of the realtime API, only on the dev server (see server/mockRealtime)
+            case "mock":
+                return new WebSocketTransport(handlers, this.getMockRealtimeUrl());
 
-            this.audioElement!.onerror = (err) => {
-                this.logStatus("RemoteAudio", "error", 'Playback error: ' + (err as ErrorEvent).message);
-                this.stopSession();
-            }
+            default:
+                return new WebRTCTransport(handlers);
         }
+    }
 
-        return true;
+    private getTransportType(): TransportType {
+        return (this.elements?.transportSelect.value ?? "webrtc") as TransportType;
     }
 
-    // captures microphone audio and sends it to the model
-    private async setupLocalAudio(): Promise<boolean> {
-        if (!this.peerConnection) {
-            this.logStatus("LocalAudio", "error", "PeerConnection not available");
-            this.stopSession();
-            return false;
-        }
+    // the scenario played by the mock server is chosen with ?mockScenario= in the page URL
+    private getMockRealtimeUrl(): string {
+        const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+        const scenario = new URLSearchParams(window.location.search).get("mockScenario") ?? "default";
+        return `${protocol}//${window.location.host}/mock-realtime?scenario=${encodeURIComponent(scenario)}`;
+    }
+
+    private async connectTransport(): Promise<void> {
+        if (!this.ephemeralKey || !this.localStream) return this.stopSession();
+
+        this.startSessionCreatedTimer();
 
         try {
-            this.localStream = await navigator.mediaDevices.getUserMedia({ audio: true });
-            this.localStream.getTracks().forEach((track) => {
-                this.peerConnection?.addTrack(track, this.localStream!);
-            });
-            //this.logStatus("LocalAudio", "ready");
-            return true;
+            const transport = this.createTransport();
+            this.transport = SessionRecorder.getInstance().isRecording() ? new RecordingTransport(transport) : transport;
+            await this.transport.connect(this.ephemeralKey, this.localStream);
 
         } catch (err) {
             if (err instanceof Error) {
-                this.logStatus("LocalAudio", "error", err.message);
+                this.logStatus("ConnectToModel", "error", err.message);
             } else {
-                this.logStatus("LocalAudio", "error", String(err));
+                this.logStatus("ConnectToModel", "error", String(err));
             }
-            this.stopSession();
-            return false;
+            this.recoverSession("connection to the model failed");
         }
     }
 
-    private setupDataChannel(): boolean {
-        if (!this.peerConnection) {
-            this.logStatus("DataChannel", "error", "PeerConnection not available");
-            this.stopSession();
-            return false;
-        }
-
-        this.dataChannel = this.peerConnection.createDataChannel("oai-events") ?? null;
-        if (!this.dataChannel) {
-            this.logStatus("DataChannel", "error", "Failed initializing dataChannel");
-            this.stopSession();
-            return false;
-        }
-
-        this.dataChannel.onopen = () => {
-            //this.logStatus("DataChannel", "ready");
-        }
+    // -------------
+    // MODEL EVENTS
+    // -------------
 
-        this.dataChannel.onclose = () => {
-            //this.logStatus("DataChannel", "closed");
-        }
-
-        this.dataChannel.onerror = (e: Event) => {
-            if (e instanceof RTCErrorEvent) {
-                console.error("[DataChannel] Error", e.error.message);
-            } else {
-                console.error("[DataChannel] Error", e);
-            }
-            this.stopSession();
-        };
-
-        this.dataChannel.onmessage = (e: MessageEvent) => this.handleDataChannelMessages(e);
-
-        return true;
-    }
-
-    private async handleDataChannelMessages(e: MessageEvent): Promise<void> {
+    private async handleModelMessages(msg: RealtimeMessage): Promise<void> {
         try {
-            const msg: RealtimeMessage = JSON.parse(e.data);
-            //console.log(msg);
-            //console.log(msg.type);
+            if (this.options.debugMode) console.log(msg);
+            SessionRecorder.getInstance().recordIncoming(msg);
 
             switch (msg.type) {
                 // session created
                 case "session.created":
                     console.log("Session ready");
+                    this.clearSessionCreatedTimer();
+                    this.responseInProgress = false; // a new connection has nothing in progress
                     this.handleSessionState(true);
 
                     this.initSession();
-                    this.sendFileContent();
+                    await this.sendFileContent();
+                    if (this.reconnecting) await this.resumeConversation();
                     break;
 
                 // errors
                 case "invalid_request_error":
-                    if (msg.error) this.logStatus("DataChannel", "error", msg.error);
+                    if (msg.error) this.logStatus("Transport", "error", msg.error);
                     this.stopSession();
                     break;
 
                 case "error":
                     const errorMsg = msg.error?.message;
-                    if (errorMsg) this.logStatus("DataChannel", "error", errorMsg);
-                    if (msg.error.code != "conversation_already_has_active_response") this.stopSession();
+                    if (errorMsg) this.logStatus("Transport", "error", errorMsg);
+                    if (msg.error?.code === "conversation_already_has_active_response") break;
+
+                    if (msg.error?.type === "server_error" || msg.error?.code === "session_expired") {
+                        this.recoverSession(msg.error.code ?? msg.error.type);
+                    } else {
+                        this.stopSession();
+                    }
                     break;
 
                 // handle audio input
+                case "input_audio_buffer.speech_started":
+                    LocalSpeechSynthesizer.getInstance().cancel(); // barge-in, as the remote voice does
+                    break;
+
                 case "input_audio_buffer.committed":
-                    await this.sendPointedPositionIfNecessary();
-                    this.dataChannel!.send(JSON.stringify({ type: "response.create" }));
-                    this.startResponseTimer();
+                    await this.answerSpokenQuestion(msg.item_id ?? null);
+                    break;
+
+                // transcription of the user's question
+                case "conversation.item.input_audio_transcription.completed":
+                    if (msg.item_id && msg.transcript) this.recordTranscription(msg.item_id, msg.transcript);
+                    if (msg.item_id && msg.transcript) ConversationTranscript.getInstance().setUserTranscription(msg.item_id, msg.transcript);
+                    break;
+
+                case "conversation.item.input_audio_transcription.failed":
+                    console.warn("Question transcription failed:", msg.error?.message);
+                    break;
+
+                case "response.created":
+                    this.responseInProgress = true;
+                    if (msg.response?.id) SessionMetrics.getInstance().onResponseCreated(msg.response.id);
                     break;
 
                 // transcription of the text response in the UI
@@ -351,30 +572,53 @@ export class RealtimeInteraction {
                     break;
 
                 case "response.output_text.delta":
-                    this.printResponseTime();
+                    SessionMetrics.getInstance().onFirstText(msg.response_id ?? null);
                     if (msg.delta && this.elements) this.elements.modelResponse.textContent += msg.delta;
+                    if (msg.delta && this.isLocalSpeechOn()) LocalSpeechSynthesizer.getInstance().appendText(msg.delta);
+                    if (msg.delta) ConversationTranscript.getInstance().appendAssistantText(msg.response_id ?? null, msg.delta, false);
                     break;
 
                 case "response.output_audio_transcript.delta":
-                    this.printResponseTime();
+                    SessionMetrics.getInstance().onFirstText(msg.response_id ?? null);
                     if (msg.delta && this.elements) this.elements.modelResponse.textContent += msg.delta;
+                    if (msg.delta) ConversationTranscript.getInstance().appendAssistantText(msg.response_id ?? null, msg.delta, true);
                     break;
 
                 // transcription of the text response in console
                 case "response.output_text.done":
                     console.log("Response: " + msg.text);
+                    if (msg.text) this.recordTurn("assistant", msg.text);
+                    if (msg.text) ConversationTranscript.getInstance().setAssistantText(msg.response_id ?? null, msg.text, false);
+                    if (this.isLocalSpeechOn()) LocalSpeechSynthesizer.getInstance().flush();
                     break;
 
                 case "response.output_audio_transcript.done":
                     console.log("Response: " + msg.transcript);
+                    if (msg.transcript) this.recordTurn("assistant", msg.transcript);
+                    if (msg.transcript) ConversationTranscript.getInstance().setAssistantText(msg.response_id ?? null, msg.transcript, true);
+                    break;
+
+                // model audio playback (hotspot sounds never play over it)
+                case "output_audio_buffer.started":
+                    HotspotSoundPlayer.getInstance().setModelSpeaking(true);
+                    this.modelAudioPlayed = true;
+                    SessionMetrics.getInstance().onFirstAudio(msg.response_id ?? null);
+                    break;
+
+                case "output_audio_buffer.stopped":
+                case "output_audio_buffer.cleared":
+                    HotspotSoundPlayer.getInstance().setModelSpeaking(false);
                     break;
 
                 // response done
+                // a failed response does not compromise the session, the user can ask again
                 case "response.done":
+                    this.responseInProgress = false;
+                    SessionMetrics.getInstance().onResponseDone(msg.response);
                     if (msg.response?.status === "failed") {
                         const error = msg.response.status_details?.error;
-                        if (error) this.logStatus("DataChannel", "error", error.message);
-                        this.stopSession();
+                        if (error) this.logStatus("Transport", "error", error.message);
+                        ConversationTranscript.getInstance().setAssistantFailed(msg.response.id ?? null, error?.message ?? "unknown error");
                     }
                     break;
 
@@ -387,55 +631,12 @@ export class RealtimeInteraction {
             }
 
         } catch (err) {
+            // a message that cannot be handled is ignored, the session goes on
             if (err instanceof Error) {
-                this.logStatus("DataChannel", "error", err.message);
+                this.logStatus("Transport", "error", err.message);
             } else {
-                this.logStatus("DataChannel", "error", String(err));
+                this.logStatus("Transport", "error", String(err));
             }
-            this.stopSession();
-        }
-    }
-
-    private async connectToModel(): Promise<void> {
-        try {
-            if (!this.peerConnection) {
-                this.logStatus("ConnectToModel", "error", "PeerConnection not available");
-                this.stopSession();
-                return;
-            }
-
-            const offer = await this.peerConnection.createOffer();
-            await this.peerConnection.setLocalDescription(offer);
-
-            const sdpResponse = await fetch("https://api.openai.com/v1/realtime/calls", {
-                method: "POST",
-                body: offer.sdp ?? null,
-                headers: {
-                    Authorization: "Bearer " + this.ephemeralKey,
-                    "Content-Type": "application/sdp",
-                },
-            });
-
-            if (!sdpResponse.ok) {
-                const errorText = await sdpResponse.text();
-                throw new Error(errorText);
-            }
-
-            const answer: RTCSessionDescriptionInit = {
-                type: "answer",
-                sdp: await sdpResponse.text()
-            };
-            await this.peerConnection.setRemoteDescription(answer);
-
-            //this.logStatus("ConnectToModel", "ready");
-
-        } catch (err) {
-            if (err instanceof Error) {
-                this.logStatus("ConnectToModel", "error", err.message);
-            } else {
-                this.logStatus("ConnectToModel", "error", String(err));
-            }
-            this.stopSession();
         }
     }
 
@@ -444,13 +645,13 @@ export class RealtimeInteraction {
     // --------------------
 
     private async initSession(): Promise<void> {
-        if (!this.dataChannel) return this.stopSession();
+        if (!this.transport) return this.stopSession();
 
         let langCode = "en-US";
         let lang = "English (US)";
         try {
-            const data = await this.getFileData();
-            langCode = data.metadata.lang || "en-US";
+            const { data } = await loadCamioDrawing();
+            langCode = data.metadata.lang;
             lang = mapLangCodeToName(langCode);
 
         } catch (err) {
@@ -459,60 +660,136 @@ export class RealtimeInteraction {
 
         const config = {
             type: "session.update",
-            session: createSessionConfig(lang)
+            session: createSessionConfig(lang, this.settings)
         };
 
-        this.dataChannel.send(JSON.stringify(config));
+        this.transport.send(config);
     }
 
-    // -------------------------
-    // SEND .CAMIO FILE CONTENT
-    // -------------------------
+    // -----------------
+    // SESSION SETTINGS
+    // -----------------
 
-    private async getFileData(): Promise<any> {
-        const path = "/" + camioFileName + "/data.json";
-        const response = await fetch(path);
-        if (!response.ok) throw new Error(`Cannot fetch ${path}`);
-        return await response.json();
-    }
+    // during a session, the turn detection, the voice (until the model speaks) and the dot apply at once,
+    // the model and the images need a new session; returns the postponed settings
+    public applySettings(settings: SessionSettings): (keyof SessionSettings)[] {
+        if (!this.sessionActive) return []; // read at the next session start
+
+        const changed = getChangedSettings(this.settings, settings);
+        const sessionKeys = changed.filter((key) =>
+            key === "turnDetection" || key === "silenceDurationMs" || key === "semanticEagerness" ||
+            (key === "voice" && !this.modelAudioPlayed));
+        const live = [...sessionKeys, ...changed.filter((key) => key === "dotRadius" || key === "positionChangeThreshold" || key === "detailHotspotOverlay")];
+
+        const applied: SessionSettings = { ...this.settings };
+        live.forEach((key) => Object.assign(applied, { [key]: settings[key] }));
+        this.settings = applied;
+        this.updatePushToTalkButton(this.transport?.isOpen() === true && !this.reconnecting);
+
+        // a reconnecting session gets them with the whole configuration
+        if (sessionKeys.length > 0 && this.transport?.isOpen()) {
+            this.transport.send({
+                type: "session.update",
+                session: {
+                    type: "realtime",
+                    audio: createAudioConfig(this.settings, !this.modelAudioPlayed)
+                }
+            });
+            console.log("Session settings updated: " + sessionKeys.join(", "));
+        }
 
-    private async getFileTemplate(): Promise<string> {
-        const path = "/" + camioFileName + "/template.png";
-        const response = await fetch(path);
-        if (!response.ok) throw new Error(`Cannot fetch ${path}`);
-        const blob = await response.blob();
-        return await imageToBase64(blob);
+        return changed.filter((key) => !live.includes(key));
     }
 
-    private async getFileColorMap(): Promise<string> {
-        const path = "/" + camioFileName + "/colorMap.png";
-        const response = await fetch(path);
-        if (!response.ok) throw new Error(`Cannot fetch ${path}`);
-        const blob = await response.blob();
-        return await imageToBase64(blob);
+    private getImageSettings(settings: SessionSettings): ImageSettings {
+        return { maxKB: settings.maxImageKB, maxDimension: settings.maxImageDimension };
     }
 
-    private async sendFileContent(): Promise<void> {
-        if (!this.dataChannel) return this.stopSession();
+    // ----------------
+    // DRAWING OPTIONS
+    // ----------------
 
+    private async loadDrawingOptions(): Promise<void> {
         try {
-            const dataOutput = JSON.stringify(await this.getFileData()); // json string
-            const templateOutput = await this.getFileTemplate(); // base64 string
-            const colorMapOutput = await this.getFileColorMap(); // base64 string
+            const drawing = await loadCamioDrawing();
+            this.options = drawing.data.options;
+            this.langCode = drawing.data.metadata.lang;
 
-            this.sendData(dataOutput);
+            // images are prepared in background, before the session needs them
+            const settings = this.sessionActive ? this.settings : SessionSettingsPanel.getInstance().getSettings();
+            ImagePreprocessor.getInstance().prepare(drawing, this.getImageSettings(settings)).catch((err) => console.warn("Image preprocessing failed:", err));
 
-            const finalTemplateOutput = await this.getSendableImage(templateOutput);
-            const finalColorMapOutput = await this.getSendableImage(colorMapOutput);
+        } catch (err) {
+            console.warn("Could not read the drawing options, using the default ones.");
+            this.options = { ...defaultCamioOptions };
+            this.langCode = "en-US";
+        }
 
-            if (!finalTemplateOutput) throw new Error("The template image is too large to be sent");
-            if (!finalColorMapOutput) throw new Error("The color map image is too large to be sent");
+        LocalSpeechSynthesizer.getInstance().setLanguage(mapLangCodeToSessionLang(this.langCode));
+        if (this.elements && !this.elements.localSpeechToggle.disabled) {
+            this.elements.localSpeechToggle.checked = this.options.speechSynthesis; // the drawing decides the default
+        }
+    }
+
+    // ----------------
+    // DRAWING CHANGES
+    // ----------------
 
-            this.grayScaleBase64Template = await base64ToGrayScale(finalTemplateOutput);
-            this.imgDimensions = await getImgDimensions(finalTemplateOutput);
-            await this.sendImage(finalTemplateOutput, "template");
-            await this.sendImage(finalColorMapOutput, "colorMap");
-            console.log(`Image dimensions: ${this.imgDimensions.x}x${this.imgDimensions.y}`)
+    // resends the content of the new drawing on the active session, without reconnecting
+    public async reloadDrawing(): Promise<void> {
+        await this.loadDrawingOptions();
+        if (!this.transport || !this.transport.isOpen()) return; // sent on the next session start
+
+        this.sendDrawingChanged();
+        ConversationTranscript.getInstance().addSessionEvent(`Drawing changed to ${getCamioFileName()}`);
+        this.resetLastCoords();
+        await this.sendFileContent();
+    }
+
+    private sendDrawingChanged(): void {
+        if (!this.transport) return this.stopSession();
+
+        const res = {
+            type: "conversation.item.create",
+            item: {
+                type: "message",
+                role: "user",
+                content: [
+                    {
+                        type: "input_text",
+                        text: `
+                            The tactile drawing has been replaced by a new one.
+                            From now on, refer only to the new tactile drawing data, template and color map that follow.
+                            `
+                    }
+                ]
+            }
+        }
+
+        this.transport.send(res);
+        console.warn("Drawing change sent to the model");
+    }
+
+    // -------------------------
+    // SEND .CAMIO FILE CONTENT
+    // -------------------------
+
+    private async sendFileContent(): Promise<void> {
+        if (!this.transport) return this.stopSession();
+
+        try {
+            const drawing = await loadCamioDrawing();
+            this.sendData(getDataJsonText(drawing));
+
+            // usually already prepared (and cached) when the drawing was loaded
+            const images = await ImagePreprocessor.getInstance().prepare(drawing, this.getImageSettings(this.settings));
+
+            this.preparedImagesKey = images.key;
+            this.imgDimensions = images.dimensions;
+            await this.sendImage(images.template, "template");
+            await this.sendImage(images.colorMap, "colorMap");
+            console.log(formatEncodingReport("Template", images.reports.template));
+            console.log(formatEncodingReport("Color map", images.reports.colorMap));
 
         } catch (err) {
             console.error("Failed to prepare or send file content:", err);
@@ -521,7 +798,7 @@ export class RealtimeInteraction {
     }
 
     private sendData(data: string): void {
-        if (!this.dataChannel) return this.stopSession();
+        if (!this.transport) return this.stopSession();
 
         const res = {
             type: "conversation.item.create",
@@ -543,38 +820,13 @@ export class RealtimeInteraction {
             }
         }
 
-        this.dataChannel.send(JSON.stringify(res));
+        this.transport.send(res);
+        SessionMetrics.getInstance().recordUpload("data", eventBytes(res));
         console.warn("data.json file sent to the model");
     }
 
-    private async getSendableImage(initialBase64Image: string): Promise<string | null> {
-        const maxImageSize: number = 220;
-
-        try {
-            const blob = base64ToBlob(initialBase64Image);
-
-            const reducedDimBlob = await reduceResolution(blob); // reduce dimensions of the blob
-
-            const webpBlob = await toWebp(reducedDimBlob); // convert in webp image
-
-            if (checkBlobSize(webpBlob, maxImageSize)) return await imageToBase64(webpBlob); // send webp converted image
-
-            let quality = 0.9;
-            while (quality >= 0.0) {
-                const compressedBlob = await compressWebpBlob(webpBlob, quality);
-                if (checkBlobSize(compressedBlob, maxImageSize)) return await imageToBase64(compressedBlob); // send webp compressed image
-                quality -= 0.1;
-            }
-
-            return null;
-
-        } catch (err) {
-            throw new Error('Image processing failed:' + (err as Error).message);
-        }
-    }
-
     private async sendImage(base64Image: string, type: string): Promise<void> {
-        if (!this.dataChannel) return this.stopSession();
+        if (!this.transport) return this.stopSession();
 
         let textMsg: string = "";
         if (type === "template") {
@@ -605,7 +857,8 @@ export class RealtimeInteraction {
             }
         }
 
-        this.dataChannel.send(JSON.stringify(res));
+        this.transport.send(res);
+        SessionMetrics.getInstance().recordUpload(type, eventBytes(res));
         console.warn("Image " + type + " file sent to the model");
     }
 
@@ -614,6 +867,8 @@ export class RealtimeInteraction {
     // ---------------
 
     private handleFunctionCalls(msg: RealtimeMessage): void {
+        ConversationTranscript.getInstance().addFunctionCall(msg.name, msg.arguments ?? "{}");
+
         switch (msg.name) {
             case "wake_word":
                 this.enableAudio();
@@ -627,7 +882,7 @@ export class RealtimeInteraction {
 
     private enableAudio(): void {
         console.warn("Called function enableAudio()");
-        if (!this.dataChannel) return this.stopSession();
+        if (!this.transport) return this.stopSession();
 
         if (this.audioResponsesOn) { // audio already enabled
             const audioAlreadyEnabled = {
@@ -640,7 +895,7 @@ export class RealtimeInteraction {
                         `
                 }
             }
-            this.dataChannel.send(JSON.stringify(audioAlreadyEnabled));
+            this.transport.send(audioAlreadyEnabled);
             return;
         }
 
@@ -652,14 +907,14 @@ export class RealtimeInteraction {
             }
         }
 
-        this.dataChannel.send(JSON.stringify(enableAudioOutput));
+        this.transport.send(enableAudioOutput);
         this.handleAudioState(true);
-        this.dataChannel.send(JSON.stringify({ type: "response.create" }));
+        this.transport.send({ type: "response.create" });
     }
 
     private async disableAudio(): Promise<void> {
         console.warn("Called function disableAudio()");
-        if (!this.dataChannel) return this.stopSession();
+        if (!this.transport) return this.stopSession();
 
         if (!this.audioResponsesOn) { // audio already disabled
             const audioAlreadyDisabled = {
@@ -672,7 +927,7 @@ export class RealtimeInteraction {
                         `
                 }
             }
-            this.dataChannel.send(JSON.stringify(audioAlreadyDisabled));
+            this.transport.send(audioAlreadyDisabled);
             return;
         }
 
@@ -684,13 +939,13 @@ export class RealtimeInteraction {
             }
         }
 
-        this.dataChannel.send(JSON.stringify(disableAudioOutput));
+        this.transport.send(disableAudioOutput);
         this.handleAudioState(false);
         this.feedbackAudioDisabled();
     }
 
     private feedbackAudioDisabled() {
-        if (!this.dataChannel) return this.stopSession();
+        if (!this.transport) return this.stopSession();
 
         const audioDisFeedback = {
             type: "response.create",
@@ -704,24 +959,112 @@ export class RealtimeInteraction {
             }
         }
 
-        this.dataChannel.send(JSON.stringify(audioDisFeedback));
+        this.transport.send(audioDisFeedback);
     }
 
-    // --------------
-    // RESPONSE TIME
-    // --------------
+    // -------------
+    // PUSH-TO-TALK
+    // -------------
+
+    // the button is held down with the pointer, or toggled from the keyboard; the spacebar is held anywhere but in form fields
+    private initPushToTalk(): void {
+        if (!this.elements) return console.error("UI elements not initialized");
+        const button = this.elements.pushToTalkBtn;
+
+        button.onpointerdown = (e) => {
+            button.setPointerCapture(e.pointerId);
+            this.startTalking();
+        };
+        button.onpointerup = () => this.stopTalking();
+        button.onpointercancel = () => this.stopTalking();
+        button.onclick = (e) => {
+            if (e.detail !== 0) return; // pointer clicks are handled by down and up
+
+            if (this.talking) {
+                this.stopTalking();
+            } else {
+                this.startTalking();
+            }
+        };
+
+        document.addEventListener("keydown", (e) => {
+            if (e.code !== "Space" || !this.isPushToTalkOn() || isFormField(e.target)) return;
+            e.preventDefault();
+            if (!e.repeat) this.startTalking();
+        });
+        document.addEventListener("keyup", (e) => {
+            if (e.code !== "Space" || !this.talking || isFormField(e.target)) return;
+            e.preventDefault();
+            this.stopTalking();
+        });
+        window.addEventListener("blur", () => this.stopTalking());
+    }
 
-    private startResponseTimer(): void {
-        this.requestStartTime = performance.now();
-        this.responseStarted = false;
+    private isPushToTalkOn(): boolean {
+        return this.settings.turnDetection === "push_to_talk" && this.sessionActive && !this.reconnecting && this.transport?.isOpen() === true;
     }
 
-    private printResponseTime(): void {
-        if (!this.responseStarted && this.requestStartTime != null) {
-            const latency = performance.now() - this.requestStartTime;
-            console.log(`Response time: ${latency.toFixed(0)} ms`);
-            this.responseStarted = true;
+    private updatePushToTalkButton(connected: boolean): void {
+        if (!this.elements) return console.error("UI elements not initialized");
+
+        const visible = this.sessionActive && this.settings.turnDetection === "push_to_talk";
+        this.elements.pushToTalkBtn.hidden = !visible;
+        this.elements.pushToTalkBtn.disabled = !connected;
+        if (!visible || !connected) this.resetTalking();
+    }
+
+    // the input buffer keeps filling with the microphone audio, so it is cleared when the user starts talking
+    private startTalking(): void {
+        if (this.talking || !this.isPushToTalkOn()) return;
+
+        this.talking = true;
+        this.talkStartTime = performance.now();
+        this.showTalking(true);
+
+        // barge-in, as the server VAD does
+        LocalSpeechSynthesizer.getInstance().cancel();
+        if (this.responseInProgress) this.transport!.send({ type: "response.cancel" });
+        this.transport!.stopPlayback();
+
+        this.transport!.send({ type: "input_audio_buffer.clear" });
+    }
+
+    // the commit is answered by "input_audio_buffer.committed", then handled as a spoken question
+    private stopTalking(): void {
+        if (!this.talking) return;
+
+        const duration = performance.now() - this.talkStartTime;
+        this.resetTalking();
+        if (!this.isPushToTalkOn()) return;
+
+        if (duration < this.minTalkMs) {
+            this.transport!.send({ type: "input_audio_buffer.clear" });
+            return console.log("Push-to-talk too short, discarded");
         }
+
+        this.transport!.send({ type: "input_audio_buffer.commit" });
+    }
+
+    private resetTalking(): void {
+        this.talking = false;
+        this.showTalking(false);
+    }
+
+    private showTalking(talking: boolean): void {
+        if (!this.elements) return console.error("UI elements not initialized");
+
+        this.elements.pushToTalkBtn.setAttribute("aria-pressed", String(talking));
+        this.elements.pushToTalkBtn.textContent = talking ? "Listening… (release to ask)" : "Hold to talk (Space)";
+    }
+
+    // -----------------
+    // SPEECH SYNTHESIS
+    // -----------------
+
+    // text responses are read by the browser, so the model voice (and its cost) is not needed
+    private isLocalSpeechOn(): boolean {
+        if (!this.elements) return false;
+        return this.elements.localSpeechToggle.checked && !this.audioResponsesOn;
     }
 
     // -----------------
@@ -729,23 +1072,114 @@ export class RealtimeInteraction {
     // -----------------
 
     private async sendPointedPositionIfNecessary(): Promise<void> {
+        const { x: currentX, y: currentY } = this.getCurrentPointedPosition();
+        const currentHotspot = this.getCurrentHotspot(currentX, currentY);
+
         try {
-            const { x: currentX, y: currentY } = this.getCurrentPointedPosition();
-            const currentHotspot = this.getCurrentHotspot();
             const { x: lastX, y: lastY } = this.getLastCoords();
 
-            //const positionChanged = this.checkPointedPositionVariation(currentX, currentY, lastX, lastY);
-            const positionChanged = true;
+            const coordsChanged = this.checkPointedPositionVariation(currentX, currentY, lastX, lastY, this.getPositionChangeThreshold());
+            const hotspotChanged = currentHotspot !== this.lastHotspot;
 
-            if (positionChanged) {
+            if (coordsChanged || hotspotChanged) {
                 this.lastCoords = { lastX: currentX, lastY: currentY };
-                await this.sendImgWithPositionAndHotspot(currentX, currentY, currentHotspot);
+                this.lastHotspot = currentHotspot;
+                await this.sendPointedPosition(currentX, currentY, currentHotspot);
+            } else {
+                // the last coordinates are kept, so that small movements cannot add up without being sent
+                this.sendSamePosition(currentX === null || currentY === null);
             }
 
         } catch (err) {
             if (err) console.error(err);
-            this.stopSession();
+
+            // only a lost connection is recovered, a local failure (image encoding, worker, cache) keeps the session
+            if (!this.transport || !this.transport.isOpen()) return this.recoverSession("pointed position not sent");
+            this.sendPositionFallback(currentX, currentY, currentHotspot);
+        }
+    }
+
+    // the position image could not be prepared: the model gets the text description, or at least knows that the position is missing
+    private sendPositionFallback(currentX: number | null, currentY: number | null, currentHotspot: string | null): void {
+        this.resetLastCoords(); // the image is tried again at the next question
+
+        try {
+            if (currentX !== null && currentY !== null) {
+                const bytes = this.sendPositionDescription(currentX, currentY, currentHotspot);
+                SessionMetrics.getInstance().recordPositionUpdate("text", bytes, null);
+                return;
+            }
+        } catch (err) {
+            console.error("Position description not sent:", err);
         }
+
+        if (!this.transport) return;
+
+        const res = {
+            type: "conversation.item.create",
+            item: {
+                type: "message",
+                role: "user",
+                content: [{ type: "input_text", text: `The pointed position is not available for this question.` }]
+            }
+        };
+
+        this.transport.send(res);
+        console.warn("Pointed position unavailable sent to the model");
+    }
+
+    // the question committed by the server VAD or by push-to-talk, answered at the pointed position
+    private async answerSpokenQuestion(itemId: string | null): Promise<void> {
+        const transport = this.transport;
+        if (!transport) return;
+
+        SessionMetrics.getInstance().beginTurn("spoken");
+        if (itemId) this.recordTurn("user", "", itemId); // text from "conversation.item.input_audio_transcription.completed"
+        this.addQuestionToTranscript(itemId, null);
+        await this.sendPointedPositionIfNecessary();
+
+        // the session may have been stopped or recovered on a new connection meanwhile
+        if (this.transport !== transport) return console.warn("Connection closed, the spoken question was not answered");
+        transport.send({ type: "response.create" });
+    }
+
+    // "Send to model" of the hotspot inspector: a question about the pointed hotspot, without speaking
+    private async askAboutPointedHotspot(): Promise<void> {
+        if (!this.transport || !this.transport.isOpen()) return;
+
+        const { x, y } = this.getCurrentPointedPosition();
+        const hotspot = this.getCurrentHotspot(x, y);
+        if (!hotspot) return console.warn("No hotspot to send to the model");
+
+        const transport = this.transport;
+        SessionMetrics.getInstance().beginTurn("text");
+        await this.sendPointedPositionIfNecessary();
+
+        // the session may have been stopped or recovered on a new connection meanwhile
+        if (this.transport !== transport) return console.warn("Connection closed, the hotspot question was not sent");
+
+        const question = `Describe the hotspot "${hotspot}" of the tactile drawing.`;
+        const res = {
+            type: "conversation.item.create",
+            item: {
+                type: "message",
+                role: "user",
+                content: [{ type: "input_text", text: question }]
+            }
+        };
+
+        transport.send(res);
+        this.recordTurn("user", question);
+        this.addQuestionToTranscript(null, question);
+        transport.send({ type: "response.create" });
+    }
+
+    // spoken questions (text null) get their text from the input audio transcription
+    private addQuestionToTranscript(itemId: string | null, text: string | null): void {
+        const { x, y } = this.getCurrentPointedPosition();
+        const position = x === null || y === null ? null : { x, y };
+
+        ConversationTranscript.getInstance().addUserTurn(itemId, text, position, this.getCurrentHotspot(x, y));
     }
 
     private getCurrentPointedPosition(): { x: number | null, y: number | null } {
@@ -757,19 +1191,33 @@ export class RealtimeInteraction {
         return { x, y };
     }
 
-    private getCurrentHotspot(): string | null {
+    private getCurrentHotspot(x: number | null, y: number | null): string | null {
         if (!this.elements) throw new Error("UI elements not initialized");
 
+        // the hotspot picked by hand is only used as an override of the detected one
+        if (!this.elements.hotspotOverride.checked) {
+            return HotspotResolver.getInstance().getHotspotAt(x, y);
+        }
+
         const hotspot = this.elements.hotspotSelect.value === "null" ? null : this.elements.hotspotSelect.value;
 
         return hotspot;
     }
 
+    private hasLastCoords(): boolean {
+        return this.lastCoords.lastX !== 100000 && this.lastCoords.lastY !== 100000; // 100000 are only placeholders
+    }
+
     private getLastCoords(): { x: number | null, y: number | null } {
         const { lastX: x, lastY: y } = this.lastCoords;
         return { x, y };
     }
 
+    // the drawing may set its own threshold, the session setting applies otherwise
+    private getPositionChangeThreshold(): number {
+        return this.options.positionChangeThreshold ?? this.settings.positionChangeThreshold;
+    }
+
     private checkPointedPositionVariation(
         currentX: number | null,
         currentY: number | null,
@@ -802,13 +1250,86 @@ export class RealtimeInteraction {
         return diffX >= threshold || diffY >= threshold;
     }
 
-    private async sendImgWithPositionAndHotspot(currentX: number | null, currentY: number | null, currentHotspot: string | null): Promise<void> {
-        if (!this.grayScaleBase64Template) throw new Error("Gray scale image template missing");
-        if (!this.dataChannel) throw new Error("Data channel missing");
+    private sendSamePosition(notPointing: boolean): void {
+        if (!this.transport) throw new Error("Transport missing");
+        if (notPointing && !this.options.notPointingMsg) return;
+
+        const res = {
+            type: "conversation.item.create",
+            item: {
+                type: "message",
+                role: "user",
+                content: [
+                    {
+                        type: "input_text",
+                        text: notPointing
+                            ? `The user is still not pointing any position.`
+                            : `The user is still pointing at the same position as before.`
+                    }
+                ]
+            }
+        };
+
+        this.transport.send(res);
+        SessionMetrics.getInstance().recordPositionUpdate(notPointing ? "not pointing" : "same", eventBytes(res), null);
+        console.log("User pointed position unchanged");
+    }
+
+    // the time to prepare and send the position and its size are measured to compare the two modes
+    private async sendPointedPosition(currentX: number | null, currentY: number | null, currentHotspot: string | null): Promise<void> {
+        const startTime = performance.now();
+        let kind: PositionUpdateKind;
+        let bytes: number;
+
+        if (this.positionMode === "text" && currentX !== null && currentY !== null) {
+            kind = "text";
+            bytes = this.sendPositionDescription(currentX, currentY, currentHotspot);
+        } else {
+            kind = currentX === null || currentY === null ? "not pointing" : "image";
+            bytes = await this.sendImgWithPositionAndHotspot(currentX, currentY, currentHotspot);
+        }
+
+        const prepTime = performance.now() - startTime;
+        console.log(`Pointed position (${this.positionMode}) prepared in ${prepTime.toFixed(0)} ms`);
+        if (bytes > 0) SessionMetrics.getInstance().recordPositionUpdate(kind, bytes, prepTime);
+    }
 
-        let resContent = [];
+    // returns the size of the sent event
+    private sendPositionDescription(currentX: number, currentY: number, currentHotspot: string | null): number {
+        if (!this.transport) throw new Error("Transport missing");
+
+        const res = {
+            type: "conversation.item.create",
+            item: {
+                type: "message",
+                role: "user",
+                content: [
+                    {
+                        type: "input_text",
+                        text: `
+                            The user is pointing at the position described here:
+                            ${PositionDescriber.getInstance().describe(currentX, currentY, currentHotspot)}
+                            `
+                    }
+                ]
+            }
+        };
+
+        this.transport.send(res);
+        console.log("User pointed position description sent to the model");
+        return eventBytes(res);
+    }
+
+    // returns the size of the sent event, 0 if nothing was sent
+    private async sendImgWithPositionAndHotspot(currentX: number | null, currentY: number | null, currentHotspot: string | null): Promise<number> {
+        if (!this.preparedImagesKey) throw new Error("Gray scale image template missing");
+        if (!this.transport) throw new Error("Transport missing");
+
+        let resContent: MessageContent[] = [];
 
         if (currentX === null || currentY === null) {
+            if (!this.options.notPointingMsg) return 0;
+
             resContent = [
                 {
                     type: "input_text",
@@ -817,7 +1338,7 @@ export class RealtimeInteraction {
             ];
 
         } else {
-            const imgWithPosition = await drawPointedPosition(this.grayScaleBase64Template, currentX, currentY);
+            const imgWithPosition = await ImagePreprocessor.getInstance().drawPointedPosition(this.preparedImagesKey, currentX, currentY, this.settings.dotRadius);
 
             resContent = [
                 {
@@ -829,17 +1350,31 @@ export class RealtimeInteraction {
                 {
                     type: "input_image",
                     image_url: imgWithPosition
-                },
-                {
+                }
+            ];
+
+            // the detail is a help, the position is sent anyway
+            try {
+                resContent.push(...await this.getDetailContent(currentX, currentY));
+            } catch (err) {
+                console.warn("Detail image not sent:", err);
+            }
+
+            if (currentHotspot) {
+                resContent.push({
                     type: "input_text",
                     text: `
-                        ${!currentHotspot
-                            ? `It does not correspond to any known hotspot.`
-                            : `It correspond to this hotspot: ${currentHotspot}`
-                        }
+                        It correspond to this hotspot: ${currentHotspot}
                         `
-                }
-            ];
+                });
+            } else if (this.options.noHotspotInfoMsg) {
+                resContent.push({
+                    type: "input_text",
+                    text: `
+                        It does not correspond to any known hotspot.
+                        `
+                });
+            }
         }
 
         const res = {
@@ -851,7 +1386,47 @@ export class RealtimeInteraction {
             }
         };
 
-        this.dataChannel.send(JSON.stringify(res));
+        this.transport.send(res);
         console.log("User pointed position sent to the model");
+        return eventBytes(res);
     }
+
+    private async getDetailContent(currentX: number, currentY: number): Promise<MessageContent[]> {
+        if (!this.preparedImagesKey) throw new Error("Gray scale image template missing");
+
+        const overlay = this.options.detailHotspotOverlay ?? this.settings.detailHotspotOverlay; // the drawing may decide
+        const hotspots = overlay ? (await loadCamioDrawing()).data.hotspots.map(({ title, color }) => ({ title, color })) : null;
+
+        const detail = await ImagePreprocessor.getInstance().createDetailImage(this.preparedImagesKey, currentX, currentY, hotspots);
+
+        const content: MessageContent[] = [
+            {
+                type: "input_text",
+                text: `
+                    Enlarged detail of the drawing template around the pointed position, at the original resolution:
+                    ` + (overlay ? `(the hotspot regions are tinted with their color map color, only as an identifier)` : "")
+            },
+            {
+                type: "input_image",
+                image_url: detail.image
+            }
+        ];
+
+        if (detail.hotspots.length > 0) {
+            content.push({
+                type: "input_text",
+                text: `
+                    Hotspots visible in the detail: ${detail.hotspots.join(", ")}
+                    `
+            });
+        }
+
+        return content;
+    }
+}
+
+// the spacebar types or toggles there, it does not talk
+function isFormField(target: EventTarget | null): boolean {
+    return target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement ||
+        (target instanceof HTMLElement && target.isContentEditable);
 }
@@ -1,21 +1,44 @@
-export default function createSessionConfig(defaultLang: string = "English (US)") {
+import { SessionSettings, defaultSessionSettings } from "../sessionSettings/sessionSettings";
+
+// the voice cannot change once the model has spoken in the session
+export function createAudioConfig(settings: SessionSettings, includeVoice: boolean = true) {
   return {
-    type: "realtime",
-    model: "gpt-realtime",
-    output_modalities: ["text"],
-    audio: {
-      input: {
-        turn_detection: {
-          type: "server_vad",
-          create_response: false, // disable auto responses
-          //interrupt_response: true,
-          silence_duration_ms: 500 // 500 default
-        }
+    input: {
+      transcription: {
+        model: "gpt-4o-mini-transcribe" // the user's questions in the transcript
       },
-      output: {
-        voice: "cedar" // or marin
-      }
+      turn_detection: createTurnDetection(settings)
     },
+    ...(includeVoice ? { output: { voice: settings.voice } } : {})
+  }
+}
+
+function createTurnDetection(settings: SessionSettings) {
+  // push-to-talk: the input buffer is cleared and committed by the client
+  if (settings.turnDetection === "push_to_talk") return null;
+
+  if (settings.turnDetection === "semantic_vad") {
+    return {
+      type: "semantic_vad",
+      create_response: false, // disable auto responses
+      eagerness: settings.semanticEagerness
+    }
+  }
+
+  return {
+    type: "server_vad",
+    create_response: false, // disable auto responses
+    //interrupt_response: true,
+    silence_duration_ms: settings.silenceDurationMs // 500 default
+  }
+}
+
+export default function createSessionConfig(defaultLang: string = "English (US)", settings: SessionSettings = defaultSessionSettings) {
+  return {
+    type: "realtime",
+    model: settings.model,
+    output_modalities: ["text"],
+    audio: createAudioConfig(settings),
     instructions: `
     # Role
     You are 'CamIO Assistant', a realtime voice AI assistant dedicated to describing and explaining tactile drawings for visually impaired users.
@@ -46,15 +69,20 @@ export default function createSessionConfig(defaultLang: string = "English (US)"
     - The color of a hotspot in the color map is not the actual color of the drawing, it's just an identifier.
 
     ## Pointed Position Updates
-    You may receive updates describing the user's pointing behavior on the tactile drawing. Updates can be of two types:
+    You may receive updates describing the user's pointing behavior on the tactile drawing. Updates can be of four types:
     1. A sentence explicitly stating that the user is not pointing at anything.
-    2. A gray-scale image representing the current position being pointed at by the user, along with the corresponding hotspot:
+    2. A sentence stating that the user is still pointing at the same position (or still not pointing) as in the previous update: in this case, refer to the last pointed position you received.
+    3. A gray-scale image representing the current position being pointed at by the user, along with the corresponding hotspot:
       - The gray-scale image corresponds to the drawing template converted to gray scale and includes a red dot marking the pointed position.
       - This gray-scale image is only a reference for locating the pointed position and does not represent the actual appearance of the drawing, which may be in color.
       - Never reveal or mention the existence of the gray-scale image or the red dot; refer to them simply as the position pointed by the user.
+      - It may be followed by an enlarged detail of the drawing template around the pointed position, also marked with a red dot, where the hotspot regions may be tinted with their color map color: use it to see small details near the pointed position, never mention it and never mention the tint colors.
+    4. A text description of the current position being pointed at by the user, instead of the gray-scale image:
+      - It lists the normalized coordinates (0, 0 is the top left corner of the drawing), the hotspot under the point, the nearest other hotspots with their direction and distance, and the drawing shapes under or near the point.
+      - Use it together with the drawing template to locate the pointed position, and never mention the coordinates or the shape identifiers to the user.
       
     ## Questions About the Pointed Position
-    - When asked a question about the pointed position, first identify the exact position pointed by the user in the drawing template, using the gray-scale image.
+    - When asked a question about the pointed position, first identify the exact position pointed by the user in the drawing template, using the gray-scale image or the text description.
     - If the pointed position lies within a known hotspot, use both the corresponding hotspot description and the drawing template to answer.
     - If the pointed position is outside any known hotspot, rely solely on the drawing template to determine what the user is pointing at, without referring to the color map or to any hotspot descriptions.
 
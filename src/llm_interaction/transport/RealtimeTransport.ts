@@ -0,0 +1,30 @@
+export type RealtimeMessage = {
+    type: string;
+    event_id: string;
+    [key: string]: any; // allows for other unknown properties
+};
+
+export type TransportType = "webrtc" | "websocket" | "mock";
+
+export type TransportStatus = "ready" | "error" | "closed";
+
+export interface RealtimeTransportHandlers {
+    onMessage: (msg: RealtimeMessage) => void; // every event received from the model
+    onConnectionLost: (reason: string) => void; // the connection broke after being established
+    onStatus: (component: string, status: TransportStatus, detail?: string) => void;
+}
+
+// how events and audio travel between the browser and the model
+export interface RealtimeTransport {
+    // sends the microphone audio to the model and plays the model audio; rejects if the connection fails
+    connect(ephemeralKey: string, microphone: MediaStream): Promise<void>;
+    send(event: object): void;
+    isOpen(): boolean;
+    // barge-in: the model audio already received stops playing
+    stopPlayback(): void;
+    close(): void;
+}
+
+export function getRealtimeWebSocketUrl(model: string): string {
+    return "wss://api.openai.com/v1/realtime?model=" + encodeURIComponent(model);
+}
@@ -0,0 +1,215 @@
+import { RealtimeMessage, RealtimeTransport, RealtimeTransportHandlers } from "./RealtimeTransport";
+
+// events travel on the "oai-events" data channel, audio on the media tracks of the peer connection
+export class WebRTCTransport implements RealtimeTransport {
+    private peerConnection: RTCPeerConnection | null = null;
+    private audioElement: HTMLAudioElement | null = null;
+    private dataChannel: RTCDataChannel | null = null;
+    private modelSpeaking: boolean = false; // the output audio buffer of the server is playing
+
+    private disconnectTimer: number | null = null;
+    private readonly disconnectTimeout: number = 5000; // ms before a "disconnected" connection is considered lost
+
+    constructor(private handlers: RealtimeTransportHandlers) { }
+
+    public async connect(ephemeralKey: string, microphone: MediaStream): Promise<void> {
+        this.setupPeerConnection();
+        this.setupRemoteAudio();
+        this.setupLocalAudio(microphone);
+        this.setupDataChannel();
+        await this.connectToModel(ephemeralKey);
+    }
+
+    public send(event: object): void {
+        if (!this.dataChannel) throw new Error("Data channel missing");
+        this.dataChannel.send(JSON.stringify(event));
+    }
+
+    public isOpen(): boolean {
+        return this.dataChannel?.readyState === "open";
+    }
+
+    // the server plays the audio, so it clears its output buffer (and truncates the answer)
+    public stopPlayback(): void {
+        if (this.modelSpeaking && this.isOpen()) this.send({ type: "output_audio_buffer.clear" });
+    }
+
+    public close(): void {
+        this.modelSpeaking = false;
+        if (this.disconnectTimer !== null) {
+            clearTimeout(this.disconnectTimer);
+            this.disconnectTimer = null;
+        }
+
+        if (this.dataChannel) {
+            this.dataChannel.onclose = null;
+            this.dataChannel.onerror = null;
+            this.dataChannel.onmessage = null;
+            this.dataChannel.close();
+            this.dataChannel = null;
+        }
+
+        if (this.peerConnection) {
+            this.peerConnection.oniceconnectionstatechange = null;
+            this.peerConnection.onconnectionstatechange = null;
+            this.peerConnection.close();
+            this.peerConnection = null;
+            this.handlers.onStatus("PeerConnection", "closed");
+        }
+
+        if (this.audioElement) {
+            this.audioElement.pause();
+            this.audioElement.srcObject = null;
+            this.audioElement.remove();
+            this.audioElement = null;
+            this.handlers.onStatus("AudioElement", "closed");
+        }
+    }
+
+    // -----------------
+    // CONNECTION SETUP
+    // -----------------
+
+    private setupPeerConnection(): void {
+        this.peerConnection = new RTCPeerConnection();
+
+        this.peerConnection.oniceconnectionstatechange = () => this.handleConnectionStateChange();
+        this.peerConnection.onconnectionstatechange = () => this.handleConnectionStateChange();
+
+        this.handlers.onStatus("PeerConnection", "ready");
+    }
+
+    // captures audio sent by the model and plays it back
+    private setupRemoteAudio(): void {
+        if (!this.peerConnection) throw new Error("PeerConnection not available");
+
+        this.audioElement = document.createElement("audio");
+        document.body.appendChild(this.audioElement);
+        this.audioElement.autoplay = true;
+
+        this.peerConnection.ontrack = (e) => {
+            this.audioElement!.srcObject = e.streams[0] ?? null;
+
+            this.audioElement!.onloadedmetadata = () => {
+                this.handlers.onStatus("RemoteAudio", "ready");
+            }
+
+            this.audioElement!.onerror = (err) => {
+                this.handlers.onStatus("RemoteAudio", "error", 'Playback error: ' + (err as ErrorEvent).message);
+                this.handlers.onConnectionLost("remote audio error");
+            }
+        }
+    }
+
+    // sends the microphone audio to the model
+    private setupLocalAudio(microphone: MediaStream): void {
+        if (!this.peerConnection) throw new Error("PeerConnection not available");
+
+        microphone.getTracks().forEach((track) => {
+            this.peerConnection?.addTrack(track, microphone);
+        });
+        this.handlers.onStatus("LocalAudio", "ready");
+    }
+
+    private setupDataChannel(): void {
+        if (!this.peerConnection) throw new Error("PeerConnection not available");
+
+        this.dataChannel = this.peerConnection.createDataChannel("oai-events") ?? null;
+        if (!this.dataChannel) throw new Error("Failed initializing dataChannel");
+
+        this.dataChannel.onopen = () => {
+            this.handlers.onStatus("DataChannel", "ready");
+        }
+
+        this.dataChannel.onclose = () => {
+            this.handlers.onStatus("DataChannel", "closed");
+            this.handlers.onConnectionLost("data channel closed");
+        }
+
+        this.dataChannel.onerror = (e: Event) => {
+            if (e instanceof RTCErrorEvent) {
+                console.error("[DataChannel] Error", e.error.message);
+            } else {
+                console.error("[DataChannel] Error", e);
+            }
+            this.handlers.onConnectionLost("data channel error");
+        };
+
+        this.dataChannel.onmessage = (e: MessageEvent) => {
+            try {
+                const msg: RealtimeMessage = JSON.parse(e.data);
+                this.trackPlayback(msg);
+                this.handlers.onMessage(msg);
+            } catch (err) {
+                // a malformed message is ignored, the session goes on
+                this.handlers.onStatus("DataChannel", "error", (err as Error).message);
+            }
+        };
+    }
+
+    private async connectToModel(ephemeralKey: string): Promise<void> {
+        if (!this.peerConnection) throw new Error("PeerConnection not available");
+
+        const offer = await this.peerConnection.createOffer();
+        await this.peerConnection.setLocalDescription(offer);
+
+        const sdpResponse = await fetch("https://api.openai.com/v1/realtime/calls", {
+            method: "POST",
+            body: offer.sdp ?? null,
+            headers: {
+                Authorization: "Bearer " + ephemeralKey,
+                "Content-Type": "application/sdp",
+            },
+        });
+
+        if (!sdpResponse.ok) {
+            const errorText = await sdpResponse.text();
+            throw new Error(errorText);
+        }
+
+        const answer: RTCSessionDescriptionInit = {
+            type: "answer",
+            sdp: await sdpResponse.text()
+        };
+        await this.peerConnection.setRemoteDescription(answer);
+
+        this.handlers.onStatus("ConnectToModel", "ready");
+    }
+
+    // ---------
+    // PLAYBACK
+    // ---------
+
+    private trackPlayback(msg: RealtimeMessage): void {
+        if (msg.type === "output_audio_buffer.started") this.modelSpeaking = true;
+        if (msg.type === "output_audio_buffer.stopped" || msg.type === "output_audio_buffer.cleared") this.modelSpeaking = false;
+    }
+
+    // -----------------
+    // CONNECTION STATE
+    // -----------------
+
+    private handleConnectionStateChange(): void {
+        if (!this.peerConnection) return;
+
+        const iceState = this.peerConnection.iceConnectionState;
+        const state = this.peerConnection.connectionState;
+
+        if (iceState === "failed" || state === "failed") {
+            return this.handlers.onConnectionLost("connection failed");
+        }
+
+        // a disconnected connection may come back by itself
+        if (iceState === "disconnected" || state === "disconnected") {
+            if (this.disconnectTimer !== null) return;
+
+            this.disconnectTimer = window.setTimeout(() => {
+                this.disconnectTimer = null;
+                const pc = this.peerConnection;
+                if (pc && (pc.iceConnectionState === "disconnected" || pc.connectionState === "disconnected")) {
+                    this.handlers.onConnectionLost("connection lost");
+                }
+            }, this.disconnectTimeout);
+        }
+    }
+}
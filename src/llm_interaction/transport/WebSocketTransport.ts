@@ -0,0 +1,209 @@
+import { RealtimeMessage, RealtimeTransport, RealtimeTransportHandlers } from "./RealtimeTransport";
+import { realtimeSampleRate, floatToPcm16Base64, pcm16Base64ToFloat } from "./pcmAudio";
+import { PcmCapture, startPcmCapture } from "./pcmCapture";
+
+// events travel as JSON messages on the socket, audio as base64 PCM inside those events;
+// works behind proxies that block the UDP traffic of WebRTC
+export class WebSocketTransport implements RealtimeTransport {
+    private socket: WebSocket | null = null;
+    private closing: boolean = false;
+
+    private audioContext: AudioContext | null = null;
+    private capture: PcmCapture | null = null;
+
+    private playbackTime: number = 0; // AudioContext time at which the next audio chunk starts
+    private scheduledSources: Set<AudioBufferSourceNode> = new Set();
+    private modelSpeaking: boolean = false;
+    private responseAudioDone: boolean = true;
+    private playingItem: { id: string, startTime: number, duration: number } | null = null; // audio item being played, duration in s
+
+    constructor(private handlers: RealtimeTransportHandlers, private url: string) { }
+
+    public connect(ephemeralKey: string, microphone: MediaStream): Promise<void> {
+        this.closing = false;
+
+        return new Promise((resolve, reject) => {
+            let opened = false;
+
+            // browsers cannot set headers on a WebSocket, the key travels as a subprotocol
+            this.socket = new WebSocket(this.url, ["realtime", "openai-insecure-api-key." + ephemeralKey]);
+
+            this.socket.onopen = async () => {
+                opened = true;
+                this.handlers.onStatus("WebSocket", "ready");
+
+                try {
+                    await this.setupAudio(microphone);
+                    resolve();
+                } catch (err) {
+                    reject(err);
+                }
+            };
+
+            this.socket.onerror = () => {
+                if (!opened) return reject(new Error("WebSocket connection failed"));
+                this.handlers.onStatus("WebSocket", "error");
+            };
+
+            this.socket.onclose = (e: CloseEvent) => {
+                this.handlers.onStatus("WebSocket", "closed", `${e.code} ${e.reason}`);
+                if (!opened) return reject(new Error(`WebSocket closed (${e.code})`));
+                if (!this.closing) this.handlers.onConnectionLost(`WebSocket closed (${e.code})`);
+            };
+
+            this.socket.onmessage = (e: MessageEvent) => {
+                try {
+                    this.handleMessage(JSON.parse(e.data));
+                } catch (err) {
+                    // a malformed message is ignored, the session goes on
+                    this.handlers.onStatus("WebSocket", "error", (err as Error).message);
+                }
+            };
+        });
+    }
+
+    public send(event: object): void {
+        if (!this.socket || this.socket.readyState !== WebSocket.OPEN) throw new Error("WebSocket not open");
+        this.socket.send(JSON.stringify(event));
+    }
+
+    public isOpen(): boolean {
+        return this.socket?.readyState === WebSocket.OPEN;
+    }
+
+    public close(): void {
+        this.closing = true;
+        this.stopPlayback();
+
+        if (this.capture) {
+            this.capture.stop();
+            this.capture = null;
+        }
+
+        if (this.audioContext) {
+            this.audioContext.close();
+            this.audioContext = null;
+        }
+
+        if (this.socket) {
+            this.socket.onmessage = null;
+            this.socket.close();
+            this.socket = null;
+        }
+    }
+
+    // ----------------
+    // INCOMING EVENTS
+    // ----------------
+
+    // plays the model audio, then forwards every event unchanged
+    private handleMessage(msg: RealtimeMessage): void {
+        switch (msg.type) {
+            case "response.created":
+                this.responseAudioDone = false;
+                break;
+
+            case "response.output_audio.delta":
+                if (msg.delta) this.playAudioChunk(msg.delta, msg.item_id ?? null);
+                break;
+
+            case "response.output_audio.done":
+            case "response.done":
+                this.responseAudioDone = true;
+                if (this.scheduledSources.size === 0) this.setModelSpeaking(false, "output_audio_buffer.stopped");
+                break;
+
+            // barge-in: the user interrupts the model
+            case "input_audio_buffer.speech_started":
+                this.stopPlayback();
+                break;
+        }
+
+        this.handlers.onMessage(msg);
+    }
+
+    // ------------
+    // AUDIO INPUT
+    // ------------
+
+    private async setupAudio(microphone: MediaStream): Promise<void> {
+        this.audioContext = new AudioContext();
+        await this.audioContext.resume();
+
+        this.capture = await startPcmCapture(this.audioContext, microphone, (samples) => {
+            if (!this.isOpen()) return;
+            this.send({ type: "input_audio_buffer.append", audio: floatToPcm16Base64(samples) });
+        });
+
+        this.handlers.onStatus("LocalAudio", "ready");
+    }
+
+    // -------------
+    // AUDIO OUTPUT
+    // -------------
+
+    private playAudioChunk(base64Audio: string, itemId: string | null): void {
+        if (!this.audioContext) return;
+
+        const samples = pcm16Base64ToFloat(base64Audio);
+        if (samples.length === 0) return;
+
+        const buffer = this.audioContext.createBuffer(1, samples.length, realtimeSampleRate);
+        buffer.copyToChannel(samples, 0);
+
+        const source = this.audioContext.createBufferSource();
+        source.buffer = buffer;
+        source.connect(this.audioContext.destination);
+
+        // chunks are queued one after the other
+        const startTime = Math.max(this.audioContext.currentTime, this.playbackTime);
+        source.start(startTime);
+        this.playbackTime = startTime + buffer.duration;
+
+        if (itemId && itemId !== this.playingItem?.id) this.playingItem = { id: itemId, startTime, duration: 0 };
+        if (this.playingItem) this.playingItem.duration += buffer.duration;
+
+        this.scheduledSources.add(source);
+        source.onended = () => {
+            this.scheduledSources.delete(source);
+            if (this.scheduledSources.size === 0 && this.responseAudioDone) this.setModelSpeaking(false, "output_audio_buffer.stopped");
+        };
+
+        this.setModelSpeaking(true, "output_audio_buffer.started");
+    }
+
+    // the server keeps the whole answer in the conversation, so it is truncated where the user stopped hearing it
+    public stopPlayback(): void {
+        if (this.scheduledSources.size > 0) this.truncatePlayingItem();
+
+        this.scheduledSources.forEach((source) => {
+            source.onended = null;
+            source.stop();
+        });
+        this.scheduledSources.clear();
+        this.playbackTime = 0;
+        this.playingItem = null;
+
+        this.setModelSpeaking(false, "output_audio_buffer.cleared");
+    }
+
+    private truncatePlayingItem(): void {
+        if (!this.playingItem || !this.audioContext || this.closing || !this.isOpen()) return;
+
+        const played = Math.min(this.playingItem.duration, Math.max(0, this.audioContext.currentTime - this.playingItem.startTime));
+        this.send({
+            type: "conversation.item.truncate",
+            item_id: this.playingItem.id,
+            content_index: 0,
+            audio_end_ms: Math.floor(played * 1000)
+        });
+    }
+
+    // emits the same playback events of the WebRTC transport
+    private setModelSpeaking(speaking: boolean, eventType: string): void {
+        if (this.modelSpeaking === speaking) return;
+
+        this.modelSpeaking = speaking;
+        this.handlers.onMessage({ type: eventType, event_id: "local_" + Date.now() });
+    }
+}
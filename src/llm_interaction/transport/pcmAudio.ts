@@ -0,0 +1,53 @@
+// the realtime API exchanges mono 16 bit PCM audio at 24 kHz, encoded in base64
+export const realtimeSampleRate: number = 24000;
+
+// linear interpolation, good enough for speech
+export function resample(samples: Float32Array, fromRate: number, toRate: number): Float32Array {
+    if (fromRate === toRate) return samples;
+
+    const ratio = fromRate / toRate;
+    const output = new Float32Array(Math.floor(samples.length / ratio));
+
+    for (let i = 0; i < output.length; i++) {
+        const position = i * ratio;
+        const index = Math.floor(position);
+        const next = Math.min(index + 1, samples.length - 1);
+        const fraction = position - index;
+        output[i] = samples[index] * (1 - fraction) + samples[next] * fraction;
+    }
+
+    return output;
+}
+
+export function floatToPcm16Base64(samples: Float32Array): string {
+    const pcm = new Int16Array(samples.length);
+    for (let i = 0; i < samples.length; i++) {
+        const s = Math.max(-1, Math.min(1, samples[i]));
+        pcm[i] = s < 0 ? s * 0x8000 : s * 0x7fff;
+    }
+
+    const bytes = new Uint8Array(pcm.buffer);
+    let binary = "";
+    const chunkSize = 0x8000; // avoids exceeding the max number of arguments
+    for (let i = 0; i < bytes.length; i += chunkSize) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+    }
+
+    return btoa(binary);
+}
+
+export function pcm16Base64ToFloat(base64: string): Float32Array<ArrayBuffer> {
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+
+    const pcm = new Int16Array(bytes.buffer, 0, Math.floor(bytes.length / 2));
+    const samples = new Float32Array(pcm.length);
+    for (let i = 0; i < pcm.length; i++) {
+        samples[i] = pcm[i] / 0x8000;
+    }
+
+    return samples;
+}
@@ -0,0 +1,69 @@
+import { realtimeSampleRate, resample } from "./pcmAudio";
+
+// collects ~100 ms of microphone samples and hands them to the main thread
+const captureWorkletSource = `
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+    constructor() {
+        super();
+        this.chunks = [];
+        this.length = 0;
+    }
+
+    process(inputs) {
+        const channel = inputs[0] && inputs[0][0];
+        if (channel) {
+            this.chunks.push(channel.slice(0));
+            this.length += channel.length;
+
+            if (this.length >= sampleRate / 10) {
+                const merged = new Float32Array(this.length);
+                let offset = 0;
+                for (const chunk of this.chunks) {
+                    merged.set(chunk, offset);
+                    offset += chunk.length;
+                }
+                this.port.postMessage(merged, [merged.buffer]);
+                this.chunks = [];
+                this.length = 0;
+            }
+        }
+        return true;
+    }
+}
+
+registerProcessor("pcm-capture", PcmCaptureProcessor);
+`;
+
+export type PcmCapture = { stop: () => void };
+
+// microphone samples at the realtime sample rate, in chunks of ~100 ms
+export async function startPcmCapture(audioContext: AudioContext, microphone: MediaStream, onChunk: (samples: Float32Array) => void): Promise<PcmCapture> {
+    const workletUrl = URL.createObjectURL(new Blob([captureWorkletSource], { type: "application/javascript" }));
+    try {
+        await audioContext.audioWorklet.addModule(workletUrl);
+    } finally {
+        URL.revokeObjectURL(workletUrl);
+    }
+
+    const microphoneSource = audioContext.createMediaStreamSource(microphone);
+    const captureNode = new AudioWorkletNode(audioContext, "pcm-capture");
+
+    const inputRate = audioContext.sampleRate;
+    captureNode.port.onmessage = (e: MessageEvent<Float32Array>) => onChunk(resample(e.data, inputRate, realtimeSampleRate));
+
+    // the node must be part of a graph reaching the destination to be processed, but it must not be heard
+    const silence = audioContext.createGain();
+    silence.gain.value = 0;
+    microphoneSource.connect(captureNode);
+    captureNode.connect(silence);
+    silence.connect(audioContext.destination);
+
+    return {
+        stop: () => {
+            captureNode.port.onmessage = null;
+            captureNode.disconnect();
+            microphoneSource.disconnect();
+            silence.disconnect();
+        }
+    };
+}
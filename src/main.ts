@@ -1,10 +1,27 @@
 import { RealtimeInteraction } from "./llm_interaction/RealtimeInteraction";
 import { PositionView } from "./imageWithPosition/PositionView";
+import { DrawingCatalog } from "./drawingCatalog/DrawingCatalog";
+import { ConversationTranscript } from "./transcript/ConversationTranscript";
+import { SessionRecorder } from "./sessionRecording/SessionRecorder";
+import { SessionMetrics } from "./sessionMetrics/SessionMetrics";
+import { SessionSettingsPanel } from "./sessionSettings/SessionSettingsPanel";
 
 document.addEventListener("DOMContentLoaded", async () => {
     const realtimeInteraction = RealtimeInteraction.getInstance();
-    realtimeInteraction.init();
-
     const positionView = PositionView.getInstance();
+    const drawingCatalog = DrawingCatalog.getInstance();
+
+    // the images of the first drawing are prepared with the saved settings
+    SessionSettingsPanel.getInstance().init((settings) => realtimeInteraction.applySettings(settings));
+
+    await drawingCatalog.init(async () => {
+        await positionView.loadDrawing();
+        await realtimeInteraction.reloadDrawing();
+    });
+
+    ConversationTranscript.getInstance().init();
+    SessionRecorder.getInstance().init();
+    SessionMetrics.getInstance().init();
+    realtimeInteraction.init();
     positionView.init();
-});
\ No newline at end of file
+});
@@ -0,0 +1,113 @@
+import { loadCamioDrawing } from "../camioDrawing/CamioDrawing";
+import { HotspotResolver } from "../hotspotDetection/HotspotResolver";
+import { DrawingStroke, extractStrokes, distanceToStroke } from "../drawingGeometry/drawingStrokes";
+import { findHotspotByColor } from "../drawingGeometry/hotspotGeometry";
+
+// text alternative to the image with the pointed position: faster and cheaper to send
+export class PositionDescriber {
+    private static instance: PositionDescriber | null = null;
+
+    private strokes: { stroke: DrawingStroke, title: string | null }[] = [];
+
+    private readonly nearestHotspots: number = 3;
+    private readonly nearStrokeDistance: number = 15; // pixel of the reduced template
+
+    // ---------------
+    // INITIALIZATION
+    // ---------------
+
+    private constructor() { }
+
+    public static getInstance(): PositionDescriber {
+        if (!PositionDescriber.instance) {
+            PositionDescriber.instance = new PositionDescriber();
+        }
+
+        return PositionDescriber.instance;
+    }
+
+    // needs the hotspot resolver already initialized, it shares its coordinates
+    public async init(): Promise<void> {
+        this.strokes = [];
+
+        try {
+            const resolver = HotspotResolver.getInstance();
+            const geometry = resolver.getHotspotGeometry();
+            if (geometry) {
+                this.strokes = geometry.strokes;
+                return;
+            }
+
+            const drawing = await loadCamioDrawing();
+            const size = resolver.getSize();
+            if (size) this.strokes = extractStrokes(drawing.stage, size).map((stroke) => ({
+                stroke,
+                title: findHotspotByColor(drawing.data.hotspots, stroke.color)?.title ?? null
+            }));
+
+        } catch (err) {
+            console.warn("Drawing strokes not available for the position description:", err);
+        }
+    }
+
+    // ------------
+    // DESCRIPTION
+    // ------------
+
+    public describe(x: number, y: number, hotspot: string | null): string {
+        const resolver = HotspotResolver.getInstance();
+        const size = resolver.getSize();
+
+        const lines: string[] = [];
+
+        if (size) {
+            lines.push(`- Normalized coordinates: x ${(x / size.width).toFixed(3)}, y ${(y / size.height).toFixed(3)} (0, 0 is the top left corner, 1, 1 the bottom right one)`);
+        } else {
+            lines.push(`- Coordinates: x ${x}, y ${y}`);
+        }
+
+        lines.push(`- Hotspot: ${hotspot ?? "none"}`);
+
+        const nearest = resolver.getNearestHotspots(x, y, this.nearestHotspots);
+        if (nearest.length > 0) {
+            const reference = size ? Math.max(size.width, size.height) : 1;
+            const described = nearest.map(({ title, dx, dy, distance }) =>
+                `${title} (${this.getDirection(dx, dy)}, ${(distance / reference * 100).toFixed(1)}% of the drawing size away)`
+            );
+            lines.push(`- Nearest other hotspots: ${described.join("; ")}`);
+        }
+
+        const { under, near } = this.getStrokesAt(x, y);
+        lines.push(`- Drawing shapes under the point: ${under.length > 0 ? under.join(", ") : "none"}`);
+        if (near.length > 0) lines.push(`- Drawing shapes near the point: ${near.join(", ")}`);
+
+        return lines.join("\n");
+    }
+
+    private getStrokesAt(x: number, y: number): { under: string[], near: string[] } {
+        const under: string[] = [];
+        const near: string[] = [];
+
+        this.strokes.forEach(({ stroke, title }) => {
+            const distance = distanceToStroke(stroke, { x, y });
+            const name = `${stroke.id} (${title ?? "no hotspot"})`;
+
+            if (distance === 0) {
+                under.push(name);
+            } else if (distance <= this.nearStrokeDistance) {
+                near.push(`${name} at ${distance.toFixed(0)} px`);
+            }
+        });
+
+        return { under, near };
+    }
+
+    // y grows downwards, as in the image
+    private getDirection(dx: number, dy: number): string {
+        const directions = ["right", "below right", "below", "below left", "left", "above left", "above", "above right"];
+        const angle = Math.atan2(dy, dx);
+        const sector = Math.round(angle / (Math.PI / 4));
+
+        return directions[(sector + 8) % 8];
+    }
+}
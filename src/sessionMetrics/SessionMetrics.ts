@@ -0,0 +1,239 @@
+import {
+    MetricsSummary,
+    Percentiles,
+    PositionUpdateKind,
+    TurnMetrics,
+    estimateCost,
+    formatMetricsCsv,
+    parseUsage,
+    summarizeByPosition
+} from "./metricsSummary";
+
+interface UIElements {
+    metricsSummary: HTMLElement;
+    exportMetricsBtn: HTMLButtonElement;
+}
+
+type OpenTurn = {
+    metrics: TurnMetrics;
+    startTime: number;
+};
+
+// latency, upload size and token usage of every response of the session, kept after the session stops
+export class SessionMetrics {
+    private static instance: SessionMetrics | null = null;
+
+    private elements: UIElements | null = null;
+
+    private drawing: string = "";
+    private startedAt: string = "";
+    private turns: TurnMetrics[] = [];
+    private uploads: Record<string, number> = {}; // kind --> bytes sent in the whole session
+
+    private pendingTurn: OpenTurn | null = null; // question asked, response not created yet
+    private responses = new Map<string, OpenTurn>(); // response id --> turn
+    private lastResponse: OpenTurn | null = null;
+
+    // ---------------
+    // INITIALIZATION
+    // ---------------
+
+    private constructor() { }
+
+    public static getInstance(): SessionMetrics {
+        if (!SessionMetrics.instance) {
+            SessionMetrics.instance = new SessionMetrics();
+        }
+
+        return SessionMetrics.instance;
+    }
+
+    public init(): void {
+        this.initializeUIElements();
+        if (!this.elements) return console.error("UI elements not initialized");
+
+        this.elements.exportMetricsBtn.onclick = () => this.exportCsv();
+        this.render();
+    }
+
+    private initializeUIElements(): void {
+        this.elements = {
+            metricsSummary: document.getElementById("metricsSummary") as HTMLElement,
+            exportMetricsBtn: document.getElementById("exportMetricsBtn") as HTMLButtonElement
+        }
+    }
+
+    // a new session starts new metrics, the reconnections continue the same ones
+    public start(drawing: string): void {
+        this.drawing = drawing;
+        this.startedAt = new Date().toISOString();
+        this.turns = [];
+        this.uploads = {};
+        this.pendingTurn = null;
+        this.responses.clear();
+        this.lastResponse = null;
+
+        this.render();
+    }
+
+    // ------
+    // TURNS
+    // ------
+
+    // a spoken question starts at the VAD commit, a text question when it is sent
+    public beginTurn(trigger: "spoken" | "text"): void {
+        this.pendingTurn = { metrics: this.createTurn(trigger), startTime: performance.now() };
+    }
+
+    // the content sent before the question, also outside a turn (e.g. when the session is resumed)
+    public recordPositionUpdate(kind: PositionUpdateKind, bytes: number, prepMs: number | null): void {
+        this.addUpload(`position ${kind}`, bytes);
+        if (!this.pendingTurn) return;
+
+        this.pendingTurn.metrics.positionUpdate = kind;
+        this.pendingTurn.metrics.positionBytes = bytes;
+        this.pendingTurn.metrics.positionPrepMs = prepMs === null ? null : Math.round(prepMs);
+    }
+
+    public recordUpload(kind: string, bytes: number): void {
+        this.addUpload(kind, bytes);
+        this.render();
+    }
+
+    // a response without a question (e.g. after a function call) is timed from its creation
+    public onResponseCreated(responseId: string): void {
+        const turn = this.pendingTurn ?? { metrics: this.createTurn("follow-up"), startTime: performance.now() };
+        this.pendingTurn = null;
+
+        this.turns.push(turn.metrics);
+        this.responses.set(responseId, turn);
+        this.lastResponse = turn;
+        this.render();
+    }
+
+    public onFirstText(responseId: string | null): void {
+        const turn = this.getTurn(responseId);
+        if (!turn || turn.metrics.firstTextMs !== null) return;
+
+        turn.metrics.firstTextMs = this.elapsed(turn);
+        console.log(`Response time: ${turn.metrics.firstTextMs} ms`);
+    }
+
+    // the model audio has no response id with every transport, it belongs to the last response
+    public onFirstAudio(responseId: string | null): void {
+        const turn = this.getTurn(responseId);
+        if (!turn || turn.metrics.firstAudioMs !== null) return;
+
+        turn.metrics.firstAudioMs = this.elapsed(turn);
+    }
+
+    // "response" of the response.done event
+    public onResponseDone(response: any): void {
+        const turn = this.getTurn(response?.id ?? null);
+        if (!turn) return;
+
+        turn.metrics.responseMs = this.elapsed(turn);
+        turn.metrics.status = response?.status ?? null;
+        turn.metrics.usage = parseUsage(response?.usage);
+        turn.metrics.costUsd = turn.metrics.usage ? estimateCost(turn.metrics.usage) : null;
+
+        if (response?.id) this.responses.delete(response.id);
+        this.render();
+    }
+
+    private createTurn(trigger: TurnMetrics["trigger"]): TurnMetrics {
+        return {
+            index: this.turns.length + 1,
+            trigger,
+            positionUpdate: null,
+            positionBytes: 0,
+            positionPrepMs: null,
+            firstTextMs: null,
+            firstAudioMs: null,
+            responseMs: null,
+            status: null,
+            usage: null,
+            costUsd: null
+        };
+    }
+
+    private getTurn(responseId: string | null): OpenTurn | null {
+        if (responseId && this.responses.has(responseId)) return this.responses.get(responseId)!;
+        return responseId ? null : this.lastResponse;
+    }
+
+    private elapsed(turn: OpenTurn): number {
+        return Math.round(performance.now() - turn.startTime);
+    }
+
+    private addUpload(kind: string, bytes: number): void {
+        this.uploads[kind] = (this.uploads[kind] ?? 0) + bytes;
+    }
+
+    // -------
+    // RENDER
+    // -------
+
+    private render(): void {
+        if (!this.elements) return console.error("UI elements not initialized");
+
+        this.elements.exportMetricsBtn.disabled = this.turns.length === 0;
+        this.elements.metricsSummary.innerHTML = "";
+
+        const uploadedKB = Object.values(this.uploads).reduce((sum, bytes) => sum + bytes, 0) / 1024;
+        const totals = document.createElement("div");
+        totals.textContent = this.turns.length === 0
+            ? "No responses yet."
+            : `${this.turns.length} responses, ${uploadedKB.toFixed(0)} KB uploaded`;
+        this.elements.metricsSummary.appendChild(totals);
+
+        if (this.turns.length === 0) return;
+
+        const table = document.createElement("table");
+        const header = table.insertRow();
+        ["", "n", "first text p50 / p90", "first audio p50 / p90", "response p50 / p90", "position KB", "tokens", "est. cost"].forEach((text) => {
+            const cell = document.createElement("th");
+            cell.textContent = text;
+            header.appendChild(cell);
+        });
+
+        summarizeByPosition(this.turns).forEach((summary) => this.renderSummaryRow(table, summary));
+        this.elements.metricsSummary.appendChild(table);
+    }
+
+    private renderSummaryRow(table: HTMLTableElement, summary: MetricsSummary): void {
+        const row = table.insertRow();
+        [
+            summary.label,
+            String(summary.turns),
+            formatPercentiles(summary.firstText),
+            formatPercentiles(summary.firstAudio),
+            formatPercentiles(summary.response),
+            summary.averagePositionKB === null ? "-" : summary.averagePositionKB.toFixed(1),
+            String(summary.tokens),
+            "$" + summary.costUsd.toFixed(4)
+        ].forEach((text) => {
+            row.insertCell().textContent = text;
+        });
+    }
+
+    // -------
+    // EXPORT
+    // -------
+
+    private exportCsv(): void {
+        if (this.turns.length === 0) return;
+
+        const stamp = this.startedAt.replace(/[:.]/g, "-");
+
+        const link = document.createElement("a");
+        link.href = URL.createObjectURL(new Blob([formatMetricsCsv(this.turns, this.uploads)], { type: "text/csv" }));
+        link.download = `metrics-${this.drawing}-${stamp}.csv`;
+        link.click();
+        setTimeout(() => URL.revokeObjectURL(link.href), 1000);
+    }
+}
+
+function formatPercentiles(percentiles: Percentiles): string {
+    return percentiles ? `${percentiles.p50} / ${percentiles.p90} ms` : "-";
+}
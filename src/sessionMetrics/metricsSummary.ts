@@ -0,0 +1,178 @@
+// how the pointed position was sent during a turn
+export type PositionUpdateKind = "image" | "text" | "same" | "not pointing";
+
+export type TokenUsage = {
+    inputText: number;
+    inputAudio: number;
+    inputImage: number;
+    cachedText: number;
+    cachedAudio: number;
+    cachedImage: number;
+    outputText: number;
+    outputAudio: number;
+};
+
+// one response of the model; times are in ms from the start of the turn (VAD commit or text question)
+export type TurnMetrics = {
+    index: number;
+    trigger: "spoken" | "text" | "follow-up"; // follow-up: response not asked by the user (e.g. after a function call)
+    positionUpdate: PositionUpdateKind | null; // null if the position was not sent in this turn
+    positionBytes: number;
+    positionPrepMs: number | null;
+    firstTextMs: number | null;
+    firstAudioMs: number | null;
+    responseMs: number | null;
+    status: string | null;
+    usage: TokenUsage | null;
+    costUsd: number | null;
+};
+
+// gpt-realtime prices in USD per 1M tokens, only an estimate: check them on the OpenAI pricing page
+export const realtimePricing = {
+    text: { input: 4, cached: 0.4, output: 16 },
+    audio: { input: 32, cached: 0.4, output: 64 },
+    image: { input: 5, cached: 0.5 }
+};
+
+// ------
+// USAGE
+// ------
+
+// size of a sent event, the images are base64 so every character is a byte
+export function eventBytes(event: object): number {
+    return JSON.stringify(event).length;
+}
+
+// "usage" of the response.done event
+export function parseUsage(usage: any): TokenUsage | null {
+    if (!usage) return null;
+
+    const input = usage.input_token_details ?? {};
+    const cached = input.cached_tokens_details ?? {};
+    const output = usage.output_token_details ?? {};
+
+    return {
+        inputText: input.text_tokens ?? 0,
+        inputAudio: input.audio_tokens ?? 0,
+        inputImage: input.image_tokens ?? 0,
+        cachedText: cached.text_tokens ?? 0,
+        cachedAudio: cached.audio_tokens ?? 0,
+        cachedImage: cached.image_tokens ?? 0,
+        outputText: output.text_tokens ?? 0,
+        outputAudio: output.audio_tokens ?? 0
+    };
+}
+
+// cached tokens are part of the input tokens, at a lower price
+export function estimateCost(usage: TokenUsage): number {
+    const p = realtimePricing;
+    const cost =
+        (usage.inputText - usage.cachedText) * p.text.input + usage.cachedText * p.text.cached +
+        (usage.inputAudio - usage.cachedAudio) * p.audio.input + usage.cachedAudio * p.audio.cached +
+        (usage.inputImage - usage.cachedImage) * p.image.input + usage.cachedImage * p.image.cached +
+        usage.outputText * p.text.output + usage.outputAudio * p.audio.output;
+
+    return cost / 1_000_000;
+}
+
+export function totalTokens(usage: TokenUsage): number {
+    return usage.inputText + usage.inputAudio + usage.inputImage + usage.outputText + usage.outputAudio;
+}
+
+// --------
+// SUMMARY
+// --------
+
+export type Percentiles = { p50: number, p90: number, p95: number } | null;
+
+export type MetricsSummary = {
+    label: string;
+    turns: number;
+    firstText: Percentiles;
+    firstAudio: Percentiles;
+    response: Percentiles;
+    positionPrep: Percentiles;
+    averagePositionKB: number | null;
+    tokens: number;
+    costUsd: number;
+};
+
+// nearest rank
+export function percentiles(values: number[]): Percentiles {
+    if (values.length === 0) return null;
+
+    const sorted = [...values].sort((a, b) => a - b);
+    const rank = (p: number) => sorted[Math.min(sorted.length - 1, Math.ceil(p / 100 * sorted.length) - 1)];
+
+    return { p50: rank(50), p90: rank(90), p95: rank(95) };
+}
+
+export function summarize(label: string, turns: TurnMetrics[]): MetricsSummary {
+    const values = (pick: (turn: TurnMetrics) => number | null) =>
+        turns.map(pick).filter((value): value is number => value !== null);
+
+    const positionTurns = turns.filter((turn) => turn.positionUpdate !== null);
+
+    return {
+        label,
+        turns: turns.length,
+        firstText: percentiles(values((turn) => turn.firstTextMs)),
+        firstAudio: percentiles(values((turn) => turn.firstAudioMs)),
+        response: percentiles(values((turn) => turn.responseMs)),
+        positionPrep: percentiles(values((turn) => turn.positionPrepMs)),
+        averagePositionKB: positionTurns.length > 0
+            ? positionTurns.reduce((sum, turn) => sum + turn.positionBytes, 0) / positionTurns.length / 1024
+            : null,
+        tokens: turns.reduce((sum, turn) => sum + (turn.usage ? totalTokens(turn.usage) : 0), 0),
+        costUsd: turns.reduce((sum, turn) => sum + (turn.costUsd ?? 0), 0)
+    };
+}
+
+// all the turns, then the questions grouped by how the position was sent
+export function summarizeByPosition(turns: TurnMetrics[]): MetricsSummary[] {
+    const summaries = [summarize("All responses", turns)];
+
+    (["image", "text", "same", "not pointing"] as PositionUpdateKind[]).forEach((kind) => {
+        const group = turns.filter((turn) => turn.positionUpdate === kind);
+        if (group.length > 0) summaries.push(summarize(`Position: ${kind}`, group));
+    });
+
+    return summaries;
+}
+
+// ----
+// CSV
+// ----
+
+export function formatMetricsCsv(turns: TurnMetrics[], uploads: Record<string, number>): string {
+    const header = [
+        "turn", "trigger", "position_update", "position_bytes", "position_prep_ms",
+        "first_text_ms", "first_audio_ms", "response_ms", "status",
+        "input_text_tokens", "input_audio_tokens", "input_image_tokens",
+        "cached_text_tokens", "cached_audio_tokens", "cached_image_tokens",
+        "output_text_tokens", "output_audio_tokens", "estimated_cost_usd"
+    ];
+
+    const rows = turns.map((turn) => [
+        turn.index, turn.trigger, turn.positionUpdate, turn.positionBytes, turn.positionPrepMs,
+        turn.firstTextMs, turn.firstAudioMs, turn.responseMs, turn.status,
+        turn.usage?.inputText, turn.usage?.inputAudio, turn.usage?.inputImage,
+        turn.usage?.cachedText, turn.usage?.cachedAudio, turn.usage?.cachedImage,
+        turn.usage?.outputText, turn.usage?.outputAudio, turn.costUsd?.toFixed(6)
+    ]);
+
+    const lines = [header, ...rows].map((row) => row.map(csvValue).join(","));
+
+    // bytes sent in the whole session, drawing content and positions
+    lines.push("", "upload,bytes");
+    Object.entries(uploads).forEach(([kind, bytes]) => lines.push(`${csvValue(kind)},${bytes}`));
+
+    return lines.join("\n") + "\n";
+}
+
+function csvValue(value: unknown): string {
+    if (value === null || value === undefined) return "";
+
+    const text = String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -0,0 +1,30 @@
+import { RealtimeTransport } from "../llm_interaction/transport/RealtimeTransport";
+import { SessionRecorder } from "./SessionRecorder";
+
+// records every outgoing event, the incoming ones are recorded by the message handler
+export class RecordingTransport implements RealtimeTransport {
+    constructor(private inner: RealtimeTransport) { }
+
+    public async connect(ephemeralKey: string, microphone: MediaStream): Promise<void> {
+        await this.inner.connect(ephemeralKey, microphone);
+        await SessionRecorder.getInstance().attachMicrophone(microphone);
+    }
+
+    public send(event: object): void {
+        this.inner.send(event);
+        SessionRecorder.getInstance().recordOutgoing(event);
+    }
+
+    public isOpen(): boolean {
+        return this.inner.isOpen();
+    }
+
+    public stopPlayback(): void {
+        this.inner.stopPlayback();
+    }
+
+    public close(): void {
+        SessionRecorder.getInstance().detachMicrophone();
+        this.inner.close();
+    }
+}
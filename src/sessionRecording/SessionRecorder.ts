@@ -0,0 +1,214 @@
+import { RealtimeMessage } from "../llm_interaction/transport/RealtimeTransport";
+import { realtimeSampleRate, floatToPcm16Base64 } from "../llm_interaction/transport/pcmAudio";
+import { PcmCapture, startPcmCapture } from "../llm_interaction/transport/pcmCapture";
+import { SessionRecording, audioFields } from "./sessionRecording";
+
+interface UIElements {
+    recordSessionToggle: HTMLInputElement;
+    downloadRecordingBtn: HTMLButtonElement;
+}
+
+// records a whole session (events and committed questions audio), to replay it with scripts/replaySession.mjs
+export class SessionRecorder {
+    private static instance: SessionRecorder | null = null;
+
+    private elements: UIElements | null = null;
+
+    private recording: SessionRecording | null = null;
+    private recordingActive: boolean = false;
+    private startTime: number = 0;
+    private connection: number = 0;
+
+    private audioContext: AudioContext | null = null;
+    private capture: PcmCapture | null = null;
+    private pendingAudio: Float32Array[] = []; // microphone audio since the last commit
+    private pendingLength: number = 0;
+    private readonly maxSegmentSeconds: number = 30;
+
+    // ---------------
+    // INITIALIZATION
+    // ---------------
+
+    private constructor() { }
+
+    public static getInstance(): SessionRecorder {
+        if (!SessionRecorder.instance) {
+            SessionRecorder.instance = new SessionRecorder();
+        }
+
+        return SessionRecorder.instance;
+    }
+
+    public init(): void {
+        this.initializeUIElements();
+        if (!this.elements) return console.error("UI elements not initialized");
+
+        this.elements.downloadRecordingBtn.onclick = () => this.download();
+        this.elements.downloadRecordingBtn.disabled = true;
+    }
+
+    private initializeUIElements(): void {
+        this.elements = {
+            recordSessionToggle: document.getElementById("recordSessionToggle") as HTMLInputElement,
+            downloadRecordingBtn: document.getElementById("downloadRecordingBtn") as HTMLButtonElement
+        }
+    }
+
+    // ---------------
+    // START AND STOP
+    // ---------------
+
+    // only if "Record" is checked, the choice is fixed for the whole session
+    public start(drawing: string, transport: string, positionMode: string): void {
+        if (!this.elements) return console.error("UI elements not initialized");
+
+        this.elements.recordSessionToggle.disabled = true;
+        if (!this.elements.recordSessionToggle.checked) return;
+
+        this.recording = { version: 1, drawing, transport, positionMode, startedAt: new Date().toISOString(), events: [], audio: [] };
+        this.recordingActive = true;
+        this.startTime = performance.now();
+        this.connection = 0;
+        this.elements.downloadRecordingBtn.disabled = true;
+
+        console.log("Recording the session");
+    }
+
+    public stop(): void {
+        if (!this.elements) return console.error("UI elements not initialized");
+
+        this.elements.recordSessionToggle.disabled = false;
+        if (!this.recordingActive) return;
+
+        this.recordingActive = false;
+        this.detachMicrophone();
+        this.elements.downloadRecordingBtn.disabled = !this.recording;
+
+        if (this.recording) console.log(`Session recorded: ${this.recording.events.length} events, ${this.recording.audio.length} questions`);
+    }
+
+    public isRecording(): boolean {
+        return this.recordingActive;
+    }
+
+    // -------
+    // EVENTS
+    // -------
+
+    public recordOutgoing(event: object): void {
+        this.record("out", event as Record<string, any>);
+
+        // the server drops its input buffer too (push-to-talk press, too short question)
+        if ((event as { type?: string }).type === "input_audio_buffer.clear") this.clearPendingAudio();
+    }
+
+    public recordIncoming(msg: RealtimeMessage): void {
+        if (!this.recordingActive) return;
+
+        if (msg.type === "session.created") this.connection++;
+        this.record("in", msg);
+
+        if (msg.type === "input_audio_buffer.committed") this.cutAudioSegment(msg.item_id ?? null);
+    }
+
+    private record(direction: "out" | "in", event: Record<string, any>): void {
+        if (!this.recordingActive || !this.recording) return;
+
+        const copy = JSON.parse(JSON.stringify(event));
+        let omittedAudio: number | undefined;
+
+        const audioField = audioFields[copy.type];
+        if (audioField && typeof copy[audioField] === "string") {
+            omittedAudio = copy[audioField].length;
+            delete copy[audioField];
+        }
+
+        this.recording.events.push({ t: this.now(), direction, connection: this.connection, event: copy, omittedAudio });
+    }
+
+    private now(): number {
+        return Math.round(performance.now() - this.startTime);
+    }
+
+    // -----------------
+    // MICROPHONE AUDIO
+    // -----------------
+
+    // the same microphone of the transport, captured again at 24 kHz (WebRTC does not expose its audio)
+    public async attachMicrophone(microphone: MediaStream): Promise<void> {
+        if (!this.recordingActive) return;
+        this.detachMicrophone();
+
+        try {
+            this.audioContext = new AudioContext();
+            await this.audioContext.resume();
+            this.capture = await startPcmCapture(this.audioContext, microphone, (samples) => this.appendAudio(samples));
+
+        } catch (err) {
+            console.warn("The questions audio will not be recorded:", err);
+            this.detachMicrophone();
+        }
+    }
+
+    public detachMicrophone(): void {
+        if (this.capture) {
+            this.capture.stop();
+            this.capture = null;
+        }
+
+        if (this.audioContext) {
+            this.audioContext.close();
+            this.audioContext = null;
+        }
+
+        this.clearPendingAudio();
+    }
+
+    private clearPendingAudio(): void {
+        this.pendingAudio = [];
+        this.pendingLength = 0;
+    }
+
+    // keeps only the last seconds, a question is never longer
+    private appendAudio(samples: Float32Array): void {
+        this.pendingAudio.push(samples);
+        this.pendingLength += samples.length;
+
+        const maxLength = this.maxSegmentSeconds * realtimeSampleRate;
+        while (this.pendingLength - this.pendingAudio[0].length >= maxLength) {
+            this.pendingLength -= this.pendingAudio.shift()!.length;
+        }
+    }
+
+    // the server commits the input buffer filled since the previous commit
+    private cutAudioSegment(itemId: string | null): void {
+        if (!this.recording) return;
+
+        const segment = new Float32Array(this.pendingLength);
+        let offset = 0;
+        this.pendingAudio.forEach((chunk) => {
+            segment.set(chunk, offset);
+            offset += chunk.length;
+        });
+
+        this.clearPendingAudio();
+
+        this.recording.audio.push({ t: this.now(), connection: this.connection, itemId, audio: floatToPcm16Base64(segment) });
+    }
+
+    // ---------
+    // DOWNLOAD
+    // ---------
+
+    private download(): void {
+        if (!this.recording) return;
+
+        const stamp = this.recording.startedAt.replace(/[:.]/g, "-");
+
+        const link = document.createElement("a");
+        link.href = URL.createObjectURL(new Blob([JSON.stringify(this.recording)], { type: "application/json" }));
+        link.download = `recording-${this.recording.drawing}-${stamp}.json`;
+        link.click();
+        setTimeout(() => URL.revokeObjectURL(link.href), 1000);
+    }
+}
@@ -0,0 +1,34 @@
+// content of a recording file, read back by scripts/replaySession.mjs
+
+// every event exchanged with the model; t is in ms from the start of the recording
+export type RecordedEvent = {
+    t: number;
+    direction: "out" | "in";
+    connection: number; // 1 for the first connection, incremented on every reconnection
+    event: Record<string, any>;
+    omittedAudio?: number; // base64 length of the audio removed from the event (input appends, output deltas)
+};
+
+// microphone audio of a committed question, base64 PCM16 mono at 24 kHz
+export type RecordedAudioSegment = {
+    t: number;
+    connection: number;
+    itemId: string | null; // item_id of the "input_audio_buffer.committed" event
+    audio: string;
+};
+
+export type SessionRecording = {
+    version: 1;
+    drawing: string;
+    transport: string;
+    positionMode: string;
+    startedAt: string;
+    events: RecordedEvent[];
+    audio: RecordedAudioSegment[];
+};
+
+// the audio of these events is recorded as segments, or not needed for the replay
+export const audioFields: Record<string, string> = {
+    "input_audio_buffer.append": "audio",
+    "response.output_audio.delta": "delta"
+};
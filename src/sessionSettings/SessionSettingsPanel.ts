@@ -0,0 +1,209 @@
+import {
+    SessionSettings,
+    defaultSessionSettings,
+    realtimeModels,
+    realtimeVoices,
+    sanitizeSettings,
+    semanticEagernessLevels,
+    settingLabels,
+    settingRanges
+} from "./sessionSettings";
+
+interface UIElements {
+    settingsModelSelect: HTMLSelectElement;
+    settingsVoiceSelect: HTMLSelectElement;
+    settingsTurnDetectionSelect: HTMLSelectElement;
+    settingsSilenceInput: HTMLInputElement;
+    settingsEagernessSelect: HTMLSelectElement;
+    settingsImageKBInput: HTMLInputElement;
+    settingsImageDimensionInput: HTMLInputElement;
+    settingsDotRadiusInput: HTMLInputElement;
+    settingsPositionThresholdInput: HTMLInputElement;
+    settingsDetailOverlayToggle: HTMLInputElement;
+    resetSettingsBtn: HTMLButtonElement;
+    settingsStatus: HTMLElement;
+}
+
+// returns the settings that could not be applied to the running session
+type SettingsChangeHandler = (settings: SessionSettings) => (keyof SessionSettings)[];
+
+// session settings chosen by the user, kept in localStorage
+export class SessionSettingsPanel {
+    private static instance: SessionSettingsPanel | null = null;
+
+    private elements: UIElements | null = null;
+
+    private settings: SessionSettings = { ...defaultSessionSettings };
+    private onChange: SettingsChangeHandler | null = null;
+    private readonly storageKey: string = "camio-session-settings";
+
+    // ---------------
+    // INITIALIZATION
+    // ---------------
+
+    private constructor() { }
+
+    public static getInstance(): SessionSettingsPanel {
+        if (!SessionSettingsPanel.instance) {
+            SessionSettingsPanel.instance = new SessionSettingsPanel();
+        }
+
+        return SessionSettingsPanel.instance;
+    }
+
+    public init(onChange: SettingsChangeHandler): void {
+        this.initializeUIElements();
+        if (!this.elements) return console.error("UI elements not initialized");
+
+        this.onChange = onChange;
+        this.settings = this.load();
+
+        fillOptions(this.elements.settingsModelSelect, realtimeModels);
+        fillOptions(this.elements.settingsVoiceSelect, realtimeVoices);
+        fillOptions(this.elements.settingsEagernessSelect, semanticEagernessLevels);
+        setRange(this.elements.settingsSilenceInput, settingRanges.silenceDurationMs);
+        setRange(this.elements.settingsImageKBInput, settingRanges.maxImageKB);
+        setRange(this.elements.settingsImageDimensionInput, settingRanges.maxImageDimension);
+        setRange(this.elements.settingsDotRadiusInput, settingRanges.dotRadius);
+        setRange(this.elements.settingsPositionThresholdInput, settingRanges.positionChangeThreshold);
+
+        [
+            this.elements.settingsModelSelect,
+            this.elements.settingsVoiceSelect,
+            this.elements.settingsTurnDetectionSelect,
+            this.elements.settingsSilenceInput,
+            this.elements.settingsEagernessSelect,
+            this.elements.settingsImageKBInput,
+            this.elements.settingsImageDimensionInput,
+            this.elements.settingsDotRadiusInput,
+            this.elements.settingsPositionThresholdInput,
+            this.elements.settingsDetailOverlayToggle
+        ].forEach((element) => element.onchange = () => this.update(this.readForm()));
+
+        this.elements.resetSettingsBtn.onclick = () => this.update({ ...defaultSessionSettings });
+
+        this.showSettings();
+    }
+
+    private initializeUIElements(): void {
+        this.elements = {
+            settingsModelSelect: document.getElementById("settingsModelSelect") as HTMLSelectElement,
+            settingsVoiceSelect: document.getElementById("settingsVoiceSelect") as HTMLSelectElement,
+            settingsTurnDetectionSelect: document.getElementById("settingsTurnDetectionSelect") as HTMLSelectElement,
+            settingsSilenceInput: document.getElementById("settingsSilenceInput") as HTMLInputElement,
+            settingsEagernessSelect: document.getElementById("settingsEagernessSelect") as HTMLSelectElement,
+            settingsImageKBInput: document.getElementById("settingsImageKBInput") as HTMLInputElement,
+            settingsImageDimensionInput: document.getElementById("settingsImageDimensionInput") as HTMLInputElement,
+            settingsDotRadiusInput: document.getElementById("settingsDotRadiusInput") as HTMLInputElement,
+            settingsPositionThresholdInput: document.getElementById("settingsPositionThresholdInput") as HTMLInputElement,
+            settingsDetailOverlayToggle: document.getElementById("settingsDetailOverlayToggle") as HTMLInputElement,
+            resetSettingsBtn: document.getElementById("resetSettingsBtn") as HTMLButtonElement,
+            settingsStatus: document.getElementById("settingsStatus") as HTMLElement
+        }
+    }
+
+    // ---------
+    // SETTINGS
+    // ---------
+
+    public getSettings(): SessionSettings {
+        return { ...this.settings };
+    }
+
+    private update(settings: SessionSettings): void {
+        this.settings = sanitizeSettings(settings);
+        this.save();
+        this.showSettings();
+
+        const postponed = this.onChange ? this.onChange(this.getSettings()) : [];
+        this.showPostponed(postponed);
+    }
+
+    // the settings that the running session could not take, cleared when a session starts
+    public showPostponed(postponed: (keyof SessionSettings)[]): void {
+        if (!this.elements) return console.error("UI elements not initialized");
+
+        this.elements.settingsStatus.textContent = postponed.length > 0
+            ? "Applied at the next session start: " + postponed.map((key) => settingLabels[key]).join(", ")
+            : "";
+    }
+
+    // -----
+    // FORM
+    // -----
+
+    private readForm(): SessionSettings {
+        if (!this.elements) return this.getSettings();
+
+        return sanitizeSettings({
+            model: this.elements.settingsModelSelect.value,
+            voice: this.elements.settingsVoiceSelect.value,
+            turnDetection: this.elements.settingsTurnDetectionSelect.value,
+            silenceDurationMs: this.elements.settingsSilenceInput.valueAsNumber,
+            semanticEagerness: this.elements.settingsEagernessSelect.value,
+            maxImageKB: this.elements.settingsImageKBInput.valueAsNumber,
+            maxImageDimension: this.elements.settingsImageDimensionInput.valueAsNumber,
+            dotRadius: this.elements.settingsDotRadiusInput.valueAsNumber,
+            positionChangeThreshold: this.elements.settingsPositionThresholdInput.valueAsNumber,
+            detailHotspotOverlay: this.elements.settingsDetailOverlayToggle.checked
+        });
+    }
+
+    // out of range values are shown corrected
+    private showSettings(): void {
+        if (!this.elements) return console.error("UI elements not initialized");
+
+        this.elements.settingsModelSelect.value = this.settings.model;
+        this.elements.settingsVoiceSelect.value = this.settings.voice;
+        this.elements.settingsTurnDetectionSelect.value = this.settings.turnDetection;
+        this.elements.settingsSilenceInput.valueAsNumber = this.settings.silenceDurationMs;
+        this.elements.settingsEagernessSelect.value = this.settings.semanticEagerness;
+        this.elements.settingsImageKBInput.valueAsNumber = this.settings.maxImageKB;
+        this.elements.settingsImageDimensionInput.valueAsNumber = this.settings.maxImageDimension;
+        this.elements.settingsDotRadiusInput.valueAsNumber = this.settings.dotRadius;
+        this.elements.settingsPositionThresholdInput.valueAsNumber = this.settings.positionChangeThreshold;
+        this.elements.settingsDetailOverlayToggle.checked = this.settings.detailHotspotOverlay;
+
+        // the silence duration only applies to server_vad, the eagerness to semantic_vad
+        this.elements.settingsSilenceInput.disabled = this.settings.turnDetection !== "server_vad";
+        this.elements.settingsEagernessSelect.disabled = this.settings.turnDetection !== "semantic_vad";
+    }
+
+    // -------------
+    // LOCALSTORAGE
+    // -------------
+
+    // localStorage may be missing or blocked (e.g. private browsing), the defaults are used then
+    private load(): SessionSettings {
+        try {
+            return sanitizeSettings(JSON.parse(localStorage.getItem(this.storageKey) ?? "null"));
+        } catch (err) {
+            console.warn("Session settings not loaded, using the default ones:", err);
+            return { ...defaultSessionSettings };
+        }
+    }
+
+    private save(): void {
+        try {
+            localStorage.setItem(this.storageKey, JSON.stringify(this.settings));
+        } catch (err) {
+            console.warn("Session settings not saved:", err);
+        }
+    }
+}
+
+function fillOptions(select: HTMLSelectElement, values: string[]): void {
+    select.innerHTML = "";
+    values.forEach((value) => {
+        const option = document.createElement("option");
+        option.value = value;
+        option.textContent = value;
+        select.appendChild(option);
+    });
+}
+
+function setRange(input: HTMLInputElement, range: { min: number, max: number, step: number }): void {
+    input.min = String(range.min);
+    input.max = String(range.max);
+    input.step = String(range.step);
+}
@@ -0,0 +1,93 @@
+// settings of the realtime session chosen by the user, also read by the /session endpoint (server/sessionProxy.js)
+
+// push_to_talk: no turn detection, the user commits the question by hand
+export type TurnDetectionType = "server_vad" | "semantic_vad" | "push_to_talk";
+
+export type SemanticEagerness = "low" | "medium" | "high" | "auto";
+
+export type SessionSettings = {
+    model: string;
+    voice: string;
+    turnDetection: TurnDetectionType;
+    silenceDurationMs: number; // server_vad only
+    semanticEagerness: SemanticEagerness; // semantic_vad only, low waits longer before deciding the user has finished
+    maxImageKB: number; // template and color map sent to the model
+    maxImageDimension: number; // pixel
+    dotRadius: number; // pixel of the position view
+    positionChangeThreshold: number; // pixel of the reduced template, a smaller movement keeps the last position; data.json may override it
+    detailHotspotOverlay: boolean; // hotspot regions tinted in the detail image; data.json may override it
+};
+
+export const realtimeModels: string[] = ["gpt-realtime", "gpt-realtime-mini"];
+
+export const realtimeVoices: string[] = ["cedar", "marin", "alloy", "ash", "ballad", "coral", "echo", "sage", "shimmer", "verse"];
+
+export const turnDetectionTypes: TurnDetectionType[] = ["server_vad", "semantic_vad", "push_to_talk"];
+
+export const semanticEagernessLevels: SemanticEagerness[] = ["auto", "low", "medium", "high"];
+
+export const defaultSessionSettings: SessionSettings = {
+    model: "gpt-realtime",
+    voice: "cedar",
+    turnDetection: "server_vad",
+    silenceDurationMs: 500,
+    semanticEagerness: "auto",
+    maxImageKB: 220,
+    maxImageDimension: 600,
+    dotRadius: 9,
+    positionChangeThreshold: 5,
+    detailHotspotOverlay: true
+};
+
+type NumericSetting = "silenceDurationMs" | "maxImageKB" | "maxImageDimension" | "dotRadius" | "positionChangeThreshold";
+
+export const settingRanges: Record<NumericSetting, { min: number, max: number, step: number }> = {
+    silenceDurationMs: { min: 200, max: 2000, step: 100 },
+    maxImageKB: { min: 50, max: 1000, step: 10 },
+    maxImageDimension: { min: 200, max: 2048, step: 1 },
+    dotRadius: { min: 2, max: 30, step: 1 },
+    positionChangeThreshold: { min: 0, max: 100, step: 1 }
+};
+
+export const settingLabels: Record<keyof SessionSettings, string> = {
+    model: "model",
+    voice: "voice",
+    turnDetection: "turn taking",
+    silenceDurationMs: "silence duration",
+    semanticEagerness: "eagerness",
+    maxImageKB: "image size",
+    maxImageDimension: "image dimension",
+    dotRadius: "dot radius",
+    positionChangeThreshold: "position change threshold",
+    detailHotspotOverlay: "detail regions"
+};
+
+// -----------
+// VALIDATION
+// -----------
+
+// unknown or invalid values (old localStorage content, request bodies) fall back on the defaults
+export function sanitizeSettings(value: unknown): SessionSettings {
+    const raw = (value && typeof value === "object" ? value : {}) as Record<string, unknown>;
+    const settings = { ...defaultSessionSettings };
+
+    if (typeof raw.model === "string" && realtimeModels.includes(raw.model)) settings.model = raw.model;
+    if (typeof raw.voice === "string" && realtimeVoices.includes(raw.voice)) settings.voice = raw.voice;
+    if (turnDetectionTypes.includes(raw.turnDetection as TurnDetectionType)) settings.turnDetection = raw.turnDetection as TurnDetectionType;
+    if (semanticEagernessLevels.includes(raw.semanticEagerness as SemanticEagerness)) settings.semanticEagerness = raw.semanticEagerness as SemanticEagerness;
+    if (typeof raw.detailHotspotOverlay === "boolean") settings.detailHotspotOverlay = raw.detailHotspotOverlay;
+
+    (Object.keys(settingRanges) as NumericSetting[]).forEach((key) => {
+        const number = raw[key];
+        if (typeof number !== "number" || !Number.isFinite(number)) return;
+
+        const { min, max } = settingRanges[key];
+        settings[key] = Math.round(Math.min(max, Math.max(min, number)));
+    });
+
+    return settings;
+}
+
+export function getChangedSettings(current: SessionSettings, next: SessionSettings): (keyof SessionSettings)[] {
+    return (Object.keys(current) as (keyof SessionSettings)[]).filter((key) => current[key] !== next[key]);
+}
@@ -0,0 +1,103 @@
+export class LocalSpeechSynthesizer {
+    private static instance: LocalSpeechSynthesizer | null = null;
+
+    private langCode: string = "en-US";
+    private voice: SpeechSynthesisVoice | null = null;
+    private buffer: string = ""; // text received but not yet spoken
+
+    // end of a sentence: punctuation followed by spaces, or a line break
+    private readonly sentenceBoundary: RegExp = /[.!?…;:]+["'”’)\]]*\s+|\n+/g;
+
+    // ---------------
+    // INITIALIZATION
+    // ---------------
+
+    private constructor() {
+        if (!this.isSupported()) return;
+
+        // voices are loaded asynchronously by some browsers
+        window.speechSynthesis.onvoiceschanged = () => this.selectVoice();
+        this.selectVoice();
+    }
+
+    public static getInstance(): LocalSpeechSynthesizer {
+        if (!LocalSpeechSynthesizer.instance) {
+            LocalSpeechSynthesizer.instance = new LocalSpeechSynthesizer();
+        }
+
+        return LocalSpeechSynthesizer.instance;
+    }
+
+    public isSupported(): boolean {
+        return "speechSynthesis" in window;
+    }
+
+    public setLanguage(langCode: string): void {
+        this.langCode = langCode;
+        this.selectVoice();
+    }
+
+    // exact language match first (e.g. it-IT), then the same language in any region (e.g. it)
+    private selectVoice(): void {
+        if (!this.isSupported()) return;
+
+        const voices = window.speechSynthesis.getVoices();
+        const lang = this.langCode.toLowerCase();
+        const baseLang = lang.split("-")[0];
+
+        this.voice = voices.find((voice) => voice.lang.toLowerCase().replace("_", "-") === lang)
+            ?? voices.find((voice) => voice.lang.toLowerCase().startsWith(baseLang))
+            ?? null;
+    }
+
+    // ---------------
+    // TEXT TO SPEECH
+    // ---------------
+
+    // speaks every complete sentence as soon as it arrives, so speech starts before the response ends
+    public appendText(delta: string): void {
+        if (!this.isSupported()) return;
+
+        this.buffer += delta;
+
+        let start = 0;
+        let match: RegExpExecArray | null;
+        this.sentenceBoundary.lastIndex = 0;
+
+        while ((match = this.sentenceBoundary.exec(this.buffer)) !== null) {
+            const end = match.index + match[0].length;
+            this.speak(this.buffer.slice(start, end));
+            start = end;
+        }
+
+        this.buffer = this.buffer.slice(start);
+    }
+
+    // speaks what is left at the end of the response
+    public flush(): void {
+        if (!this.isSupported()) return;
+
+        this.speak(this.buffer);
+        this.buffer = "";
+    }
+
+    // barge-in: the user started speaking
+    public cancel(): void {
+        this.buffer = "";
+        if (this.isSupported()) window.speechSynthesis.cancel();
+    }
+
+    private speak(text: string): void {
+        const sentence = text.trim();
+        if (sentence.length === 0) return;
+
+        const utterance = new SpeechSynthesisUtterance(sentence);
+        utterance.lang = this.langCode;
+        if (this.voice) utterance.voice = this.voice;
+        utterance.onerror = (e) => {
+            if (e.error !== "canceled" && e.error !== "interrupted") console.warn("Speech synthesis error:", e.error);
+        };
+
+        window.speechSynthesis.speak(utterance);
+    }
+}
@@ -0,0 +1,238 @@
+import {
+    Transcript,
+    TranscriptEntry,
+    describePointing,
+    formatTime,
+    formatTranscriptJson,
+    formatTranscriptMarkdown
+} from "./transcriptFormat";
+
+interface UIElements {
+    transcriptList: HTMLElement;
+    exportJsonBtn: HTMLButtonElement;
+    exportMarkdownBtn: HTMLButtonElement;
+}
+
+// record of the whole session, kept after the session stops so that it can be exported
+export class ConversationTranscript {
+    private static instance: ConversationTranscript | null = null;
+
+    private elements: UIElements | null = null;
+
+    private transcript: Transcript | null = null;
+    private entryElements = new Map<TranscriptEntry, HTMLElement>();
+    private pendingTranscriptions = new Map<string, string>(); // item id --> text arrived before its question
+
+    // ---------------
+    // INITIALIZATION
+    // ---------------
+
+    private constructor() { }
+
+    public static getInstance(): ConversationTranscript {
+        if (!ConversationTranscript.instance) {
+            ConversationTranscript.instance = new ConversationTranscript();
+        }
+
+        return ConversationTranscript.instance;
+    }
+
+    public init(): void {
+        this.initializeUIElements();
+        if (!this.elements) return console.error("UI elements not initialized");
+
+        this.elements.exportJsonBtn.onclick = () => this.export("json");
+        this.elements.exportMarkdownBtn.onclick = () => this.export("markdown");
+        this.updateExportButtons();
+    }
+
+    private initializeUIElements(): void {
+        this.elements = {
+            transcriptList: document.getElementById("transcriptList") as HTMLElement,
+            exportJsonBtn: document.getElementById("exportJsonBtn") as HTMLButtonElement,
+            exportMarkdownBtn: document.getElementById("exportMarkdownBtn") as HTMLButtonElement
+        }
+    }
+
+    // ---------------
+    // SESSION EVENTS
+    // ---------------
+
+    // a new session starts a new transcript, the reconnections continue the same one
+    public start(drawing: string, transport: string, positionMode: string): void {
+        this.transcript = { drawing, transport, positionMode, startedAt: new Date().toISOString(), entries: [] };
+        this.entryElements.clear();
+        this.pendingTranscriptions.clear();
+
+        if (this.elements) this.elements.transcriptList.innerHTML = "";
+        this.updateExportButtons();
+        this.addSessionEvent("Session started");
+    }
+
+    public addSessionEvent(text: string): void {
+        this.add({ type: "session", time: now(), text });
+    }
+
+    // ----------
+    // USER TURN
+    // ----------
+
+    // spoken questions are added when the audio is committed, their text when transcribed
+    public addUserTurn(itemId: string | null, text: string | null, position: { x: number, y: number } | null, hotspot: string | null): void {
+        const spoken = text === null;
+        if (spoken && itemId && this.pendingTranscriptions.has(itemId)) {
+            text = this.pendingTranscriptions.get(itemId)!;
+            this.pendingTranscriptions.delete(itemId);
+        }
+
+        this.add({ type: "user", time: now(), itemId, text, spoken, position, hotspot });
+    }
+
+    public setUserTranscription(itemId: string, text: string): void {
+        const entry = this.findEntry((e) => e.type === "user" && e.itemId === itemId);
+        if (!entry || entry.type !== "user") {
+            this.pendingTranscriptions.set(itemId, text);
+            return;
+        }
+
+        entry.text = text.trim();
+        this.render(entry);
+    }
+
+    // ---------------
+    // ASSISTANT TURN
+    // ---------------
+
+    public appendAssistantText(responseId: string | null, delta: string, audio: boolean): void {
+        const entry = this.getAssistantEntry(responseId, audio);
+        entry.text += delta;
+        this.render(entry);
+    }
+
+    // the final text replaces the deltas
+    public setAssistantText(responseId: string | null, text: string, audio: boolean): void {
+        const entry = this.getAssistantEntry(responseId, audio);
+        entry.text = text;
+        this.render(entry);
+    }
+
+    public setAssistantFailed(responseId: string | null, message: string): void {
+        const entry = this.getAssistantEntry(responseId, false);
+        entry.failed = message;
+        this.render(entry);
+    }
+
+    public addFunctionCall(name: string, args: string): void {
+        this.add({ type: "function_call", time: now(), name, arguments: args });
+    }
+
+    private getAssistantEntry(responseId: string | null, audio: boolean): Extract<TranscriptEntry, { type: "assistant" }> {
+        const entry = this.findEntry((e) => e.type === "assistant" && e.responseId === responseId);
+        if (entry && entry.type === "assistant") {
+            entry.audio = entry.audio || audio;
+            return entry;
+        }
+
+        const created: TranscriptEntry = { type: "assistant", time: now(), responseId, text: "", audio };
+        this.add(created);
+        return created;
+    }
+
+    // ------
+    // STATE
+    // ------
+
+    private add(entry: TranscriptEntry): void {
+        if (!this.transcript) return; // no session started yet
+
+        this.transcript.entries.push(entry);
+        this.render(entry);
+    }
+
+    private findEntry(predicate: (entry: TranscriptEntry) => boolean): TranscriptEntry | undefined {
+        if (!this.transcript) return undefined;
+
+        for (let i = this.transcript.entries.length - 1; i >= 0; i--) {
+            if (predicate(this.transcript.entries[i])) return this.transcript.entries[i];
+        }
+        return undefined;
+    }
+
+    // ----------
+    // RENDERING
+    // ----------
+
+    private render(entry: TranscriptEntry): void {
+        if (!this.elements) return console.error("UI elements not initialized");
+
+        const list = this.elements.transcriptList;
+        const atBottom = list.scrollHeight - list.scrollTop - list.clientHeight < 20;
+
+        let element = this.entryElements.get(entry);
+        if (!element) {
+            element = document.createElement("div");
+            element.className = "transcriptEntry transcript-" + entry.type;
+            this.entryElements.set(entry, element);
+            list.appendChild(element);
+        }
+
+        const header = document.createElement("div");
+        header.className = "transcriptHeader";
+        const body = document.createElement("div");
+
+        switch (entry.type) {
+            case "user":
+                header.textContent = `User, ${formatTime(entry.time)}, ${describePointing(entry.position, entry.hotspot)}`;
+                body.textContent = entry.text ?? "…";
+                break;
+
+            case "assistant":
+                header.textContent = `Assistant, ${formatTime(entry.time)}` + (entry.audio ? ", spoken" : "");
+                body.textContent = entry.failed ? "Failed: " + entry.failed : entry.text;
+                break;
+
+            case "function_call":
+                header.textContent = `Function call, ${formatTime(entry.time)}`;
+                body.textContent = entry.name;
+                break;
+
+            case "session":
+                header.textContent = formatTime(entry.time);
+                body.textContent = entry.text;
+                break;
+        }
+
+        element.replaceChildren(header, body);
+        if (atBottom) list.scrollTop = list.scrollHeight;
+    }
+
+    // -------
+    // EXPORT
+    // -------
+
+    private updateExportButtons(): void {
+        if (!this.elements) return;
+
+        this.elements.exportJsonBtn.disabled = !this.transcript;
+        this.elements.exportMarkdownBtn.disabled = !this.transcript;
+    }
+
+    private export(format: "json" | "markdown"): void {
+        if (!this.transcript) return;
+
+        const content = format === "json" ? formatTranscriptJson(this.transcript) : formatTranscriptMarkdown(this.transcript);
+        const type = format === "json" ? "application/json" : "text/markdown";
+        const extension = format === "json" ? ".json" : ".md";
+        const stamp = this.transcript.startedAt.replace(/[:.]/g, "-");
+
+        const link = document.createElement("a");
+        link.href = URL.createObjectURL(new Blob([content], { type }));
+        link.download = `transcript-${this.transcript.drawing}-${stamp}${extension}`;
+        link.click();
+        setTimeout(() => URL.revokeObjectURL(link.href), 1000);
+    }
+}
+
+function now(): string {
+    return new Date().toISOString();
+}
@@ -0,0 +1,95 @@
+// one line of the conversation, times are ISO strings
+export type TranscriptEntry =
+    | {
+        type: "user";
+        time: string;
+        itemId: string | null; // input audio item, the transcription arrives later
+        text: string | null; // null until transcribed
+        spoken: boolean;
+        position: { x: number, y: number } | null;
+        hotspot: string | null;
+    }
+    | {
+        type: "assistant";
+        time: string;
+        responseId: string | null;
+        text: string;
+        audio: boolean;
+        failed?: string; // error message of a failed response
+    }
+    | {
+        type: "function_call";
+        time: string;
+        name: string;
+        arguments: string;
+    }
+    | {
+        type: "session";
+        time: string;
+        text: string; // e.g. "Reconnected", "Drawing changed to Car"
+    };
+
+export type Transcript = {
+    drawing: string;
+    transport: string;
+    positionMode: string;
+    startedAt: string;
+    entries: TranscriptEntry[];
+};
+
+// -----
+// JSON
+// -----
+
+export function formatTranscriptJson(transcript: Transcript): string {
+    return JSON.stringify(transcript, null, 2);
+}
+
+// ---------
+// MARKDOWN
+// ---------
+
+export function formatTranscriptMarkdown(transcript: Transcript): string {
+    const lines = [
+        `# Transcript: ${transcript.drawing}`,
+        "",
+        `- Started: ${transcript.startedAt}`,
+        `- Transport: ${transcript.transport}`,
+        `- Position as: ${transcript.positionMode}`,
+        ""
+    ];
+
+    transcript.entries.forEach((entry) => {
+        lines.push(formatEntryMarkdown(entry), "");
+    });
+
+    return lines.join("\n");
+}
+
+function formatEntryMarkdown(entry: TranscriptEntry): string {
+    const time = formatTime(entry.time);
+
+    switch (entry.type) {
+        case "user":
+            return `**User** (${time}, ${describePointing(entry.position, entry.hotspot)}): ${entry.text ?? (entry.spoken ? "*(not transcribed)*" : "")}`;
+
+        case "assistant":
+            if (entry.failed) return `**Assistant** (${time}): *failed: ${entry.failed}*`;
+            return `**Assistant** (${time}${entry.audio ? ", spoken" : ""}): ${entry.text}`;
+
+        case "function_call":
+            return `*Function call \`${entry.name}\`* (${time})`;
+
+        case "session":
+            return `*${entry.text}* (${time})`;
+    }
+}
+
+export function describePointing(position: { x: number, y: number } | null, hotspot: string | null): string {
+    const where = position ? `pointing at x ${position.x}, y ${position.y}` : "not pointing";
+    return where + (hotspot ? `, hotspot "${hotspot}"` : ""); // the hotspot may be picked by hand
+}
+
+export function formatTime(isoTime: string): string {
+    return new Date(isoTime).toLocaleTimeString();
+}
@@ -0,0 +1,20 @@
+// no DOM dependencies, usable in workers too
+
+export function imageToBase64(image: Blob | File): Promise<string> {
+    return new Promise<string>((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onloadend = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error ?? new Error("Unknown FileReader error"));
+        reader.readAsDataURL(image);
+    });
+}
+
+export function base64ToBlob(base64: string): Blob {
+    const [header, data] = base64.split(',');
+    const binary = atob(data);
+    const array = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        array[i] = binary.charCodeAt(i);
+    }
+    return new Blob([array], { type: header.match(/:(.*?);/)![1] });
+}
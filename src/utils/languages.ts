@@ -0,0 +1,19 @@
+// kept free of browser dependencies, it is also used by the session proxy (server/sessionProxy.js)
+
+const langNames: Record<string, string> = {
+  "en-US": "English (US)",
+  "en-GB": "English (UK)",
+  "en-AU": "English (Australia)",
+  "it-IT": "Italian",
+  "fr-FR": "French",
+  "es-ES": "Spanish"
+};
+
+export function mapLangCodeToName(langCode: string): string {
+  return langNames[langCode] || "English (US)";
+}
+
+// language code actually used by the session (same fallback of mapLangCodeToName)
+export function mapLangCodeToSessionLang(langCode: string): string {
+  return langNames[langCode] ? langCode : "en-US";
+}
@@ -0,0 +1,73 @@
+import { PixelBuffer } from "./pixels";
+import { RasterBackend, RasterFormat } from "./rasterBackend";
+
+// backend based on Image and the DOM canvas, only in the page
+
+function createCanvas(width: number, height: number): CanvasRenderingContext2D {
+    const canvas = document.createElement("canvas");
+    canvas.width = width;
+    canvas.height = height;
+
+    const ctx = canvas.getContext("2d");
+    if (!ctx) throw new Error("Canvas context not available");
+    return ctx;
+}
+
+function loadImage(blob: Blob): Promise<HTMLImageElement> {
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        const url = URL.createObjectURL(blob);
+
+        img.onload = () => {
+            URL.revokeObjectURL(url);
+            resolve(img);
+        };
+        img.onerror = () => {
+            URL.revokeObjectURL(url);
+            reject(new Error("Unable to load image"));
+        };
+        img.src = url;
+    });
+}
+
+function toContext(pixels: PixelBuffer): CanvasRenderingContext2D {
+    const ctx = createCanvas(pixels.width, pixels.height);
+    ctx.putImageData(new ImageData(pixels.data, pixels.width, pixels.height), 0, 0);
+    return ctx;
+}
+
+function fromContext(ctx: CanvasRenderingContext2D): PixelBuffer {
+    const { width, height, data } = ctx.getImageData(0, 0, ctx.canvas.width, ctx.canvas.height);
+    return { width, height, data };
+}
+
+export const canvasRaster: RasterBackend = {
+    name: "canvas",
+
+    async decode(blob: Blob): Promise<PixelBuffer> {
+        const img = await loadImage(blob);
+        const ctx = createCanvas(img.naturalWidth, img.naturalHeight);
+        ctx.drawImage(img, 0, 0);
+        return fromContext(ctx);
+    },
+
+    encode(pixels: PixelBuffer, format: RasterFormat, quality?: number): Promise<Blob> {
+        const ctx = toContext(pixels);
+
+        return new Promise((resolve, reject) => {
+            ctx.canvas.toBlob(
+                (blob) => blob ? resolve(blob) : reject(new Error("Unable to encode image")),
+                format,
+                quality
+            );
+        });
+    },
+
+    async resize(pixels: PixelBuffer, width: number, height: number, smooth: boolean = true): Promise<PixelBuffer> {
+        const source = toContext(pixels);
+        const ctx = createCanvas(width, height);
+        ctx.imageSmoothingEnabled = smooth;
+        ctx.drawImage(source.canvas, 0, 0, width, height);
+        return fromContext(ctx);
+    }
+};
@@ -0,0 +1,52 @@
+import { PixelBuffer } from "./pixels";
+import { RasterBackend, RasterFormat } from "./rasterBackend";
+
+// backend based on createImageBitmap and OffscreenCanvas, works in the page and in workers
+
+function createCanvas(width: number, height: number): OffscreenCanvasRenderingContext2D {
+    const ctx = new OffscreenCanvas(width, height).getContext("2d");
+    if (!ctx) throw new Error("OffscreenCanvas context not available");
+    return ctx;
+}
+
+function toContext(pixels: PixelBuffer): OffscreenCanvasRenderingContext2D {
+    const ctx = createCanvas(pixels.width, pixels.height);
+    ctx.putImageData(new ImageData(pixels.data, pixels.width, pixels.height), 0, 0);
+    return ctx;
+}
+
+function fromContext(ctx: OffscreenCanvasRenderingContext2D): PixelBuffer {
+    const { width, height, data } = ctx.getImageData(0, 0, ctx.canvas.width, ctx.canvas.height);
+    return { width, height, data };
+}
+
+export const offscreenRaster: RasterBackend & { isSupported(): boolean } = {
+    name: "offscreen",
+
+    isSupported(): boolean {
+        return typeof OffscreenCanvas !== "undefined" && typeof createImageBitmap !== "undefined";
+    },
+
+    async decode(blob: Blob): Promise<PixelBuffer> {
+        const bitmap = await createImageBitmap(blob);
+        try {
+            const ctx = createCanvas(bitmap.width, bitmap.height);
+            ctx.drawImage(bitmap, 0, 0);
+            return fromContext(ctx);
+        } finally {
+            bitmap.close();
+        }
+    },
+
+    encode(pixels: PixelBuffer, format: RasterFormat, quality?: number): Promise<Blob> {
+        return toContext(pixels).canvas.convertToBlob({ type: format, quality });
+    },
+
+    async resize(pixels: PixelBuffer, width: number, height: number, smooth: boolean = true): Promise<PixelBuffer> {
+        const source = toContext(pixels);
+        const ctx = createCanvas(width, height);
+        ctx.imageSmoothingEnabled = smooth;
+        ctx.drawImage(source.canvas, 0, 0, width, height);
+        return fromContext(ctx);
+    }
+};
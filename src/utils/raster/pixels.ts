@@ -0,0 +1,97 @@
+// pure pixel work, no DOM: runs in the page, in a worker or in Node
+
+// RGBA, 4 bytes per pixel, row by row (same layout of ImageData)
+export type PixelBuffer = {
+    width: number;
+    height: number;
+    data: Uint8ClampedArray<ArrayBuffer>;
+};
+
+export function createPixelBuffer(width: number, height: number): PixelBuffer {
+    return { width, height, data: new Uint8ClampedArray(width * height * 4) };
+}
+
+export const viewDimension: number = 600; // pixel, the template of the position view and of hotspot detection
+
+// largest size within maxDimension keeping the aspect ratio, never enlarged
+export function fitWithin(width: number, height: number, maxDimension: number): { width: number, height: number } {
+    if (width > height) {
+        if (width > maxDimension) {
+            return { width: maxDimension, height: Math.round(height * (maxDimension / width)) };
+        }
+    } else {
+        if (height > maxDimension) {
+            return { width: Math.round(width * (maxDimension / height)), height: maxDimension };
+        }
+    }
+
+    return { width, height };
+}
+
+// luminance (Rec. 709), alpha is kept
+export function toGrayScale(pixels: PixelBuffer): PixelBuffer {
+    const data = new Uint8ClampedArray(pixels.data);
+
+    // conversion formula
+    const rW = 0.2126, gW = 0.7152, bW = 0.0722;
+
+    for (let i = 0; i < data.length; i += 4) {
+        const gray = Math.round(data[i] * rW + data[i + 1] * gW + data[i + 2] * bW);
+
+        data[i] = gray;
+        data[i + 1] = gray;
+        data[i + 2] = gray;
+    }
+
+    return { width: pixels.width, height: pixels.height, data };
+}
+
+// filled circle blended over the image, color alpha in the range 0-1
+export function drawDot(
+    pixels: PixelBuffer,
+    x: number,
+    y: number,
+    radius: number,
+    color: [number, number, number, number] = [255, 0, 0, 0.75]
+): PixelBuffer {
+    const data = new Uint8ClampedArray(pixels.data);
+    const [r, g, b, a] = color;
+
+    const minX = Math.max(0, Math.floor(x - radius));
+    const maxX = Math.min(pixels.width - 1, Math.ceil(x + radius));
+    const minY = Math.max(0, Math.floor(y - radius));
+    const maxY = Math.min(pixels.height - 1, Math.ceil(y + radius));
+
+    for (let py = minY; py <= maxY; py++) {
+        for (let px = minX; px <= maxX; px++) {
+            // distance measured from the pixel center, as the canvas does
+            const dx = px + 0.5 - x;
+            const dy = py + 0.5 - y;
+            if (dx * dx + dy * dy > radius * radius) continue;
+
+            const i = (py * pixels.width + px) * 4;
+            data[i] = Math.round(r * a + data[i] * (1 - a));
+            data[i + 1] = Math.round(g * a + data[i + 1] * (1 - a));
+            data[i + 2] = Math.round(b * a + data[i + 2] * (1 - a));
+            data[i + 3] = Math.round(255 * a + data[i + 3] * (1 - a));
+        }
+    }
+
+    return { width: pixels.width, height: pixels.height, data };
+}
+
+// copy of a rectangle, clamped to the image
+export function cropPixels(pixels: PixelBuffer, left: number, top: number, width: number, height: number): PixelBuffer {
+    const x0 = Math.max(0, Math.min(pixels.width, Math.round(left)));
+    const y0 = Math.max(0, Math.min(pixels.height, Math.round(top)));
+    const w = Math.max(0, Math.min(pixels.width - x0, Math.round(width)));
+    const h = Math.max(0, Math.min(pixels.height - y0, Math.round(height)));
+
+    const cropped = createPixelBuffer(w, h);
+    for (let row = 0; row < h; row++) {
+        const start = ((y0 + row) * pixels.width + x0) * 4;
+        cropped.data.set(pixels.data.subarray(start, start + w * 4), row * w * 4);
+    }
+
+    return cropped;
+}
@@ -0,0 +1,25 @@
+import { PixelBuffer } from "./pixels";
+import { canvasRaster } from "./canvasRaster";
+import { offscreenRaster } from "./offscreenRaster";
+
+export type RasterFormat = "image/png" | "image/webp" | "image/jpeg";
+
+// decoding, encoding and resampling of images, the only steps that need a canvas
+export interface RasterBackend {
+    name: string;
+    decode(blob: Blob): Promise<PixelBuffer>;
+    encode(pixels: PixelBuffer, format: RasterFormat, quality?: number): Promise<Blob>;
+    resize(pixels: PixelBuffer, width: number, height: number, smooth?: boolean): Promise<PixelBuffer>; // smooth = false keeps the exact colors
+}
+
+let backend: RasterBackend | null = null;
+
+// OffscreenCanvas where available (also inside workers), the DOM canvas otherwise
+export function getRasterBackend(): RasterBackend {
+    if (!backend) backend = offscreenRaster.isSupported() ? offscreenRaster : canvasRaster;
+    return backend;
+}
+
+export function setRasterBackend(newBackend: RasterBackend): void {
+    backend = newBackend;
+}
@@ -0,0 +1,54 @@
+import { readFileSync } from "fs";
+import { resolve } from "path";
+import { describe, expect, it } from "vitest";
+import { defaultCamioOptions, validateCamioData } from "../../src/camioDrawing/camioSchema";
+
+const filesDir = resolve(__dirname, "../../files");
+
+function readDataJson(drawing: string): { options: Record<string, unknown> } {
+    return JSON.parse(readFileSync(resolve(filesDir, drawing, "data.json"), "utf8"));
+}
+
+describe("options of data.json", () => {
+    it("keeps the options of other CamIO versions", () => {
+        const raw = readDataJson("Aeroplano");
+        const { options } = validateCamioData(raw);
+
+        expect(options.homographyMaxAge).toBe(500);
+        expect(options.minInliers).toBe(100);
+        expect(options).toEqual({ ...defaultCamioOptions, ...raw.options });
+    });
+
+    it("fills the missing options with the defaults", () => {
+        const raw = readDataJson("Islet");
+        delete raw.options.playSounds;
+
+        expect(validateCamioData(raw).options.playSounds).toBe(defaultCamioOptions.playSounds);
+    });
+
+    it("leaves the position change threshold to the session settings unless the drawing sets it", () => {
+        const raw = readDataJson("Islet");
+        expect(validateCamioData(raw).options.positionChangeThreshold).toBeNull();
+
+        raw.options.positionChangeThreshold = 20;
+        expect(validateCamioData(raw).options.positionChangeThreshold).toBe(20);
+
+        raw.options.positionChangeThreshold = "20";
+        expect(() => validateCamioData(raw)).toThrow("options.positionChangeThreshold is not a number");
+    });
+
+    it("leaves the detail overlay to the session settings unless the drawing sets it", () => {
+        const raw = readDataJson("Islet");
+        expect(validateCamioData(raw).options.detailHotspotOverlay).toBeNull();
+
+        raw.options.detailHotspotOverlay = false;
+        expect(validateCamioData(raw).options.detailHotspotOverlay).toBe(false);
+    });
+
+    it("rejects a known option of the wrong type", () => {
+        const raw = readDataJson("Islet");
+        raw.options.playSounds = "yes";
+
+        expect(() => validateCamioData(raw)).toThrow("options.playSounds is not a boolean");
+    });
+});
@@ -0,0 +1,147 @@
+import { readFileSync } from "fs";
+import { resolve } from "path";
+import { beforeAll, describe, expect, it } from "vitest";
+import { CamioHotspot, KonvaNode, validateCamioData, validateKonvaStage } from "../../src/camioDrawing/camioSchema";
+import { DrawingStroke, Point, distanceToStroke, isInsidePolygon } from "../../src/drawingGeometry/drawingStrokes";
+import { HotspotGeometry, buildHotspotGeometry, findHotspotByColor, hitTest, renderColorMap } from "../../src/drawingGeometry/hotspotGeometry";
+import { PixelBuffer } from "../../src/utils/raster/pixels";
+import { pngRaster } from "../utils/raster/pngRaster";
+
+// Aeroplano has freehand strokes and closed fills, on a background image moved right in the stage
+const drawingDir = resolve(__dirname, "../../files/Aeroplano");
+
+function readJson(file: string): unknown {
+    return JSON.parse(readFileSync(resolve(drawingDir, file), "utf8"));
+}
+
+function pixelAt(pixels: PixelBuffer, x: number, y: number): number[] {
+    const i = (y * pixels.width + x) * 4;
+    return Array.from(pixels.data.subarray(i, i + 4));
+}
+
+function findNode(node: KonvaNode, match: (node: KonvaNode) => boolean): KonvaNode | null {
+    if (match(node)) return node;
+    for (const child of node.children ?? []) {
+        const found = findNode(child, match);
+        if (found) return found;
+    }
+    return null;
+}
+
+// distance from the border of the stroke, ignoring its width and fill
+function distanceToBorder(stroke: DrawingStroke, p: Point): number {
+    return distanceToStroke({ ...stroke, closed: false, width: 0 }, p);
+}
+
+describe("hotspot geometry of Aeroplano", () => {
+    let stage: KonvaNode;
+    let hotspots: CamioHotspot[];
+    let colorMap: PixelBuffer;
+    let geometry: HotspotGeometry;
+
+    // hotspot of a pixel of colorMap.png, undefined on the colors blended along the borders
+    const hotspotOfMap = (x: number, y: number): string | null | undefined => {
+        const [r, g, b, a] = pixelAt(colorMap, x, y);
+        if (a === 0 || (r === 255 && g === 255 && b === 255)) return null;
+        return findHotspotByColor(hotspots, [r, g, b, a / 255])?.title;
+    };
+
+    beforeAll(async () => {
+        stage = validateKonvaStage(readJson("drawing.json"));
+        hotspots = validateCamioData(readJson("data.json")).hotspots;
+        colorMap = await pngRaster.decode(new Blob([readFileSync(resolve(drawingDir, "colorMap.png"))], { type: "image/png" }));
+        geometry = buildHotspotGeometry(stage, hotspots, colorMap);
+    });
+
+    it("finds the strokes of every hotspot", () => {
+        expect(geometry.regions.map(({ title }) => title).sort()).toEqual(hotspots.map(({ title }) => title).sort());
+    });
+
+    it("maps the box of the background image, not the stage, onto the template", () => {
+        const image = findNode(stage, (node) => node.className === "Image")!;
+        expect(Number(image.attrs.x)).toBeGreaterThan(0);
+
+        const scale = colorMap.width / Number(image.attrs.width);
+        const line = geometry.strokes.find(({ stroke }) => stroke.id === "line-0")!.stroke;
+        const node = findNode(stage, (node) => node.attrs.id === "line-0")!;
+        const [x, y] = node.attrs.points as number[];
+
+        expect(line.points[0].x).toBeCloseTo((x - Number(image.attrs.x)) * scale);
+        expect(line.points[0].y).toBeCloseTo((y - (Number(image.attrs.y) || 0)) * scale);
+        expect(line.width).toBeCloseTo(Number(node.attrs.strokeWidth) * scale);
+    });
+
+    it("hits an open stroke within half its width, a closed fill anywhere inside", () => {
+        const { stroke: open } = geometry.strokes.find(({ stroke }) => !stroke.closed && stroke.width > 0)!;
+        const i = Math.floor(open.points.length / 2);
+        const p = open.points[i];
+        const next = open.points.slice(i + 1).find((q) => q.x !== p.x || q.y !== p.y)!;
+
+        // across one segment (the rest of a freehand stroke may bend back over the point)
+        const segment: DrawingStroke = { ...open, points: [p, next] };
+        const length = Math.hypot(next.x - p.x, next.y - p.y);
+        const across = (d: number): Point => ({ x: p.x - (next.y - p.y) / length * d, y: p.y + (next.x - p.x) / length * d });
+        expect(distanceToStroke(segment, across(open.width / 2 - 1))).toBe(0);
+        expect(distanceToStroke(segment, across(open.width / 2 + 1))).toBeCloseTo(1);
+
+        // the deepest centroid of the fills, far from any border
+        const fills = geometry.strokes.filter(({ stroke }) => stroke.closed && stroke.width === 0);
+        const { stroke: fill, centroid } = fills
+            .map(({ stroke }) => ({ stroke, centroid: getCentroid(stroke.points) }))
+            .filter(({ stroke, centroid }) => isInsidePolygon(stroke.points, centroid))
+            .reduce((a, b) => distanceToBorder(a.stroke, a.centroid) > distanceToBorder(b.stroke, b.centroid) ? a : b);
+
+        expect(distanceToBorder(fill, centroid)).toBeGreaterThan(10);
+        expect(distanceToStroke(fill, centroid)).toBe(0);
+        expect(distanceToStroke({ ...fill, closed: false }, centroid)).toBeGreaterThan(0);
+    });
+
+    it("agrees with colorMap.png at the stroke centroids", () => {
+        const rendered = renderColorMap(geometry, colorMap.width, colorMap.height);
+        let checked = 0;
+
+        geometry.strokes.forEach(({ stroke }) => {
+            // the middle point of a stroke, the centroid of a fill when inside it
+            const p = stroke.width > 0 ? stroke.points[Math.floor(stroke.points.length / 2)] : getCentroid(stroke.points);
+            if (stroke.width === 0 && (!isInsidePolygon(stroke.points, p) || distanceToBorder(stroke, p) < 2)) return;
+
+            const x = Math.floor(p.x), y = Math.floor(p.y);
+            const expected = hotspotOfMap(x, y);
+            if (expected === undefined) return;
+
+            expect(hitTest(geometry, { x: x + 0.5, y: y + 0.5 }), `${stroke.id} at ${x},${y}`).toBe(expected);
+            expect(pixelAt(rendered, x, y), `${stroke.id} at ${x},${y}`).toEqual(pixelAt(colorMap, x, y));
+            checked++;
+        });
+
+        expect(checked).toBeGreaterThan(20);
+    });
+
+    it("renders the hotspots of colorMap.png, apart from its blended borders", () => {
+        const rendered = renderColorMap(geometry, colorMap.width, colorMap.height);
+        let compared = 0, different = 0;
+
+        for (let y = 0; y < colorMap.height; y++) {
+            for (let x = 0; x < colorMap.width; x++) {
+                const expected = hotspotOfMap(x, y);
+                if (expected === undefined) continue;
+
+                const [r, g, b, a] = pixelAt(rendered, x, y);
+                const actual = a === 0 ? null : findHotspotByColor(hotspots, [r, g, b, a / 255])?.title;
+
+                compared++;
+                if (actual !== expected) different++;
+            }
+        }
+
+        expect(compared).toBeGreaterThan(colorMap.width * colorMap.height * 0.9);
+        expect(different / compared).toBeLessThan(0.001);
+    });
+});
+
+function getCentroid(points: Point[]): Point {
+    return {
+        x: points.reduce((sum, p) => sum + p.x, 0) / points.length,
+        y: points.reduce((sum, p) => sum + p.y, 0) / points.length
+    };
+}
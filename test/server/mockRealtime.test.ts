@@ -0,0 +1,491 @@
+// @vitest-environment happy-dom
+import { createServer, Server } from "http";
+import { readFileSync } from "fs";
+import { resolve } from "path";
+import { afterAll, afterEach, beforeAll, describe, expect, it, onTestFinished, vi } from "vitest";
+import type { DetachedWindowAPI } from "happy-dom";
+import { MinimalPluginContextWithoutEnvironment, Plugin, rollupVersion, version } from "vite";
+import { createMockRealtime, mockRealtime } from "../../server/mockRealtime/mockRealtime";
+import { RealtimeInteraction } from "../../src/llm_interaction/RealtimeInteraction";
+import { ConversationTranscript } from "../../src/transcript/ConversationTranscript";
+import { SessionRecorder } from "../../src/sessionRecording/SessionRecorder";
+import { SessionMetrics } from "../../src/sessionMetrics/SessionMetrics";
+import { SessionSettingsPanel } from "../../src/sessionSettings/SessionSettingsPanel";
+
+// the whole RealtimeInteraction runs against the mock server, only what needs a real browser is stubbed:
+// the drawing files are read from files/, the images are not processed, the audio is silent
+
+// options added to data.json of the drawing, as a drawing author would set them
+const optionOverrides = vi.hoisted(() => ({} as Record<string, unknown>));
+
+vi.mock("../../src/camioDrawing/CamioDrawing", async (importOriginal) => {
+    const actual = await importOriginal<typeof import("../../src/camioDrawing/CamioDrawing")>();
+    const { getCamioFileName } = await import("../../src/camioFileName");
+    const fs = await import("fs");
+    const path = await import("path");
+
+    const loadCamioDrawing = async (name: string = getCamioFileName()) => {
+        const folder = path.resolve(__dirname, "../../files", name);
+        const files = new Map<string, Uint8Array<ArrayBuffer>>();
+        fs.readdirSync(folder, { recursive: true, withFileTypes: true })
+            .filter((entry) => entry.isFile())
+            .forEach((entry) => {
+                const filePath = path.resolve(entry.parentPath, entry.name);
+                files.set(path.relative(folder, filePath).split(path.sep).join("/"), new Uint8Array(fs.readFileSync(filePath)));
+            });
+
+        if (Object.keys(optionOverrides).length > 0) {
+            const data = JSON.parse(new TextDecoder().decode(files.get("data.json")));
+            data.options = { ...data.options, ...optionOverrides };
+            files.set("data.json", new TextEncoder().encode(JSON.stringify(data)));
+        }
+
+        return actual.createCamioDrawing(name, files);
+    };
+
+    return { ...actual, loadCamioDrawing };
+});
+
+// local failures of the image preprocessing, the connection is fine
+const imageFailures = vi.hoisted(() => ({ pointedPosition: false }));
+
+vi.mock("../../src/imagePreprocessing/ImagePreprocessor", () => {
+    const report = { format: "image/webp", width: 600, height: 400, sizeKB: 1, quality: null, flatColor: true };
+    const preprocessor = {
+        prepare: async () => ({
+            key: "test",
+            template: "data:image/webp;base64,dGVtcGxhdGU=",
+            colorMap: "data:image/webp;base64,Y29sb3JNYXA=",
+            dimensions: { x: 600, y: 400 },
+            reports: { template: report, colorMap: report }
+        }),
+        drawPointedPosition: async () => {
+            if (imageFailures.pointedPosition) throw new Error("Mock encoding failure");
+            return "data:image/webp;base64,cG9zaXRpb24=";
+        },
+        createDetailImage: async () => ({ image: "data:image/webp;base64,ZGV0YWls", hotspots: [] })
+    };
+
+    return { ImagePreprocessor: { getInstance: () => preprocessor } };
+});
+
+// the microphone is silent, the tests push the samples to the last started capture
+const captures = vi.hoisted(() => [] as ((samples: Float32Array) => void)[]);
+
+vi.mock("../../src/llm_interaction/transport/pcmCapture", () => ({
+    startPcmCapture: async (_context: AudioContext, _microphone: MediaStream, onChunk: (samples: Float32Array) => void) => {
+        captures.push(onChunk);
+        return { stop: () => { } };
+    }
+}));
+
+// the model audio "plays" in real time, so that a barge-in finds it still playing
+class SilentAudioContext {
+    private startedAt = performance.now();
+    public sampleRate = 24000;
+    public destination = {};
+    public get currentTime() {
+        return (performance.now() - this.startedAt) / 1000;
+    }
+    public async resume() { }
+    public async close() { }
+    public createBuffer(_channels: number, length: number, sampleRate: number) {
+        return { duration: length / sampleRate, copyToChannel: () => { } };
+    }
+    public createBufferSource() {
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        const source = {
+            buffer: null as { duration: number } | null,
+            onended: null as (() => void) | null,
+            connect: () => { },
+            start: (when: number) => {
+                const endsIn = Math.max(0, when + (source.buffer?.duration ?? 0) - this.currentTime);
+                timer = setTimeout(() => source.onended?.(), endsIn * 1000);
+            },
+            stop: () => clearTimeout(timer)
+        };
+        return source;
+    }
+}
+
+// the client events recorded by the mock server, with the fields checked here
+type LoggedEvent = {
+    type: string;
+    item?: { content: { type: string, text?: string, image_url?: string }[] };
+    session?: { output_modalities?: string[], tools?: { name: string }[] };
+    response?: { output_modalities?: string[] };
+    item_id?: string;
+    content_index?: number;
+    audio_end_ms?: number;
+};
+
+type LogEntry = { connection: number, event: LoggedEvent };
+
+declare global {
+    interface Window {
+        happyDOM: DetachedWindowAPI; // set by the happy-dom environment of Vitest
+    }
+}
+
+const mockPath = "/mock-realtime";
+const mock = createMockRealtime();
+let server: Server;
+let origin: string;
+
+// -------
+// HARNESS
+// -------
+
+beforeAll(async () => {
+    server = createServer((req, res) => {
+        req.url = req.url!.slice(mockPath.length) || "/";
+        mock.handleRequest(req, res);
+    });
+    server.on("upgrade", (req, socket) => mock.handleUpgrade(req, socket));
+    await new Promise<void>((done) => server.listen(0, "127.0.0.1", done));
+    origin = `http://127.0.0.1:${(server.address() as { port: number }).port}`;
+
+    vi.stubGlobal("AudioContext", SilentAudioContext);
+    Object.defineProperty(navigator, "mediaDevices", {
+        configurable: true,
+        value: { getUserMedia: async () => ({ getTracks: () => [] }) }
+    });
+
+    // the page of the dev server, with the "Mock server" transport
+    const html = transformIndexHtml(mockRealtime({}), readFileSync(resolve(__dirname, "../../index.html"), "utf8"));
+    document.body.innerHTML = html.match(/<body[^>]*>([\s\S]*)<\/body>/)![1];
+
+    SessionSettingsPanel.getInstance().init((settings) => RealtimeInteraction.getInstance().applySettings(settings));
+    ConversationTranscript.getInstance().init();
+    SessionRecorder.getInstance().init();
+    SessionMetrics.getInstance().init();
+    RealtimeInteraction.getInstance().init();
+});
+
+afterEach(async () => {
+    element<HTMLButtonElement>("stopBtn").click();
+    await fetch(origin + mockPath + "/log", { method: "DELETE" });
+});
+
+afterAll(async () => {
+    await new Promise((done) => server.close(done));
+    vi.unstubAllGlobals();
+});
+
+function element<T extends HTMLElement>(id: string): T {
+    return document.getElementById(id) as T;
+}
+
+// the index.html hook of a plugin, called as the dev server would
+function transformIndexHtml(plugin: Plugin, html: string): string {
+    const transform = plugin.transformIndexHtml;
+    const hook = typeof transform === "function" ? transform : transform?.handler;
+    if (!hook) return html;
+
+    const context: MinimalPluginContextWithoutEnvironment = {
+        meta: { rollupVersion, viteVersion: version, watchMode: false },
+        debug: () => {},
+        info: () => {},
+        warn: () => {},
+        error: (error) => { throw typeof error === "string" ? new Error(error) : error; }
+    };
+    const result = hook.call(context, html, { path: "/index.html", filename: resolve(__dirname, "../../index.html") });
+    if (typeof result !== "string") throw new Error(`${plugin.name} did not return the page as a string`);
+
+    return result;
+}
+
+async function startSession(scenario: string): Promise<void> {
+    window.happyDOM.setURL(`${origin}/?mockScenario=${scenario}`);
+    element<HTMLSelectElement>("transportSelect").value = "mock";
+    element<HTMLButtonElement>("startBtn").click();
+
+    await vi.waitFor(() => expect(element("sessionState").textContent).toBe("Session on"), { timeout: 5000 });
+    await waitForEvents("conversation.item.create", 3); // data.json, template and color map
+}
+
+// a spoken question, as the server VAD would commit it
+async function askQuestion(): Promise<void> {
+    await fetch(origin + mockPath + "/commit", { method: "POST" });
+}
+
+async function getLog(type: string): Promise<LogEntry[]> {
+    const res = await fetch(`${origin}${mockPath}/log?type=${encodeURIComponent(type)}`);
+    return await res.json();
+}
+
+async function waitForEvents(type: string, count: number): Promise<LogEntry[]> {
+    let entries: LogEntry[] = [];
+    await vi.waitFor(async () => {
+        entries = await getLog(type);
+        expect(entries.length).toBeGreaterThanOrEqual(count);
+    }, { timeout: 5000, interval: 50 });
+    return entries;
+}
+
+function setTurnDetection(type: string): void {
+    const select = element<HTMLSelectElement>("settingsTurnDetectionSelect");
+    select.value = type;
+    select.dispatchEvent(new Event("change"));
+}
+
+function itemTexts(entry: LogEntry): string[] {
+    return entry.event.item!.content.filter((part) => part.type === "input_text").map((part) => part.text!.trim());
+}
+
+function outputModalities(entries: LogEntry[]): string[][] {
+    return entries.map((entry) => entry.event.session!.output_modalities).filter((modalities): modalities is string[] => modalities !== undefined);
+}
+
+// ------
+// TESTS
+// ------
+
+describe("RealtimeInteraction against the mock realtime server", () => {
+    it("configures the session and sends the drawing content", async () => {
+        await startSession("default");
+
+        const [config] = await getLog("session.update");
+        expect(config.event.session!.output_modalities).toEqual(["text"]);
+        expect(config.event.session!.tools!.map((tool) => tool.name)).toEqual(["wake_word", "sleep_word"]);
+
+        // data.json as written by the author
+        const [data, template, colorMap] = await getLog("conversation.item.create");
+        expect(itemTexts(data)[1]).toBe(readFileSync(resolve(__dirname, "../../files/Islet/data.json"), "utf8").trim());
+        expect(template.event.item!.content[1]).toEqual({ type: "input_image", image_url: "data:image/webp;base64,dGVtcGxhdGU=" });
+        expect(colorMap.event.item!.content[1]).toEqual({ type: "input_image", image_url: "data:image/webp;base64,Y29sb3JNYXA=" });
+    });
+
+    it("sends the pointed position before asking for the response", async () => {
+        await startSession("default");
+        await askQuestion();
+
+        const [position] = (await waitForEvents("conversation.item.create", 4)).slice(3);
+        expect(itemTexts(position)).toEqual(["The user is not pointing any position."]);
+        await waitForEvents("response.create", 1);
+
+        await vi.waitFor(() => expect(element("modelResponse").textContent).toContain("This is a mock answer."), { timeout: 5000 });
+
+        element<HTMLInputElement>("xCoord").value = "120";
+        element<HTMLInputElement>("yCoord").value = "80";
+        await askQuestion();
+
+        const [image] = (await waitForEvents("conversation.item.create", 5)).slice(4);
+        expect(image.event.item!.content).toContainEqual({ type: "input_image", image_url: "data:image/webp;base64,cG9zaXRpb24=" });
+
+        element<HTMLInputElement>("xCoord").value = "";
+        element<HTMLInputElement>("yCoord").value = "";
+    });
+
+    it("keeps the last position for smaller movements than the threshold of the drawing", async () => {
+        const moveTo = (x: number, y: number) => {
+            element<HTMLInputElement>("xCoord").value = String(x);
+            element<HTMLInputElement>("yCoord").value = String(y);
+        };
+        const lastPosition = async (count: number) => (await waitForEvents("conversation.item.create", count))[count - 1];
+
+        optionOverrides.positionChangeThreshold = 50;
+        await RealtimeInteraction.getInstance().reloadDrawing();
+        onTestFinished(async () => {
+            delete optionOverrides.positionChangeThreshold;
+            await RealtimeInteraction.getInstance().reloadDrawing();
+            moveTo(NaN, NaN);
+        });
+
+        await startSession("default");
+        moveTo(120, 80);
+        await askQuestion();
+        expect((await lastPosition(4)).event.item!.content).toContainEqual({ type: "input_image", image_url: "data:image/webp;base64,cG9zaXRpb24=" });
+        await vi.waitFor(() => expect(element("modelResponse").textContent).toContain("You are pointing at the drawing."), { timeout: 5000 });
+
+        // 20 px: more than the session setting (5 px), less than the drawing option
+        element("modelResponse").textContent = "";
+        moveTo(140, 80);
+        await askQuestion();
+        expect(itemTexts(await lastPosition(5))).toEqual(["The user is still pointing at the same position as before."]);
+        await vi.waitFor(() => expect(element("modelResponse").textContent).toContain("You are pointing at the drawing."), { timeout: 5000 });
+
+        moveTo(180, 80);
+        await askQuestion();
+        expect((await lastPosition(6)).event.item!.content).toContainEqual({ type: "input_image", image_url: "data:image/webp;base64,cG9zaXRpb24=" });
+    }, 15000);
+
+    it("describes the position in text when its image cannot be prepared, keeping the connection", async () => {
+        imageFailures.pointedPosition = true;
+        onTestFinished(() => {
+            imageFailures.pointedPosition = false;
+            element<HTMLInputElement>("xCoord").value = "";
+            element<HTMLInputElement>("yCoord").value = "";
+        });
+
+        await startSession("default");
+        element<HTMLInputElement>("xCoord").value = "120";
+        element<HTMLInputElement>("yCoord").value = "80";
+        await askQuestion();
+
+        const [description] = (await waitForEvents("conversation.item.create", 4)).slice(3);
+        expect(itemTexts(description)[0]).toContain("The user is pointing at the position described here:");
+        await waitForEvents("response.create", 1);
+        await vi.waitFor(() => expect(element("modelResponse").textContent).toContain("You are pointing at the drawing."), { timeout: 5000 });
+
+        // the image is tried again at the next question
+        imageFailures.pointedPosition = false;
+        await askQuestion();
+        const [image] = (await waitForEvents("conversation.item.create", 5)).slice(4);
+        expect(image.event.item!.content).toContainEqual({ type: "input_image", image_url: "data:image/webp;base64,cG9zaXRpb24=" });
+
+        const connections = new Set((await getLog("session.update")).map((entry) => entry.connection));
+        expect(connections.size).toBe(1);
+        expect(element("sessionState").textContent).toBe("Session on");
+    }, 15000);
+
+    it("leaves the hotspot regions out of the detail image when the drawing turns them off", async () => {
+        const detailText = (entry: LogEntry) => itemTexts(entry).find((text) => text.startsWith("Enlarged detail"))!;
+
+        await startSession("default");
+        element<HTMLInputElement>("xCoord").value = "120";
+        element<HTMLInputElement>("yCoord").value = "80";
+        await askQuestion();
+        expect(detailText((await waitForEvents("conversation.item.create", 4))[3])).toContain("the hotspot regions are tinted");
+        await vi.waitFor(() => expect(element("modelResponse").textContent).toContain("You are pointing at the drawing."), { timeout: 5000 });
+        element<HTMLButtonElement>("stopBtn").click();
+
+        // the session setting is on, the drawing decides
+        optionOverrides.detailHotspotOverlay = false;
+        await RealtimeInteraction.getInstance().reloadDrawing();
+        onTestFinished(async () => {
+            delete optionOverrides.detailHotspotOverlay;
+            await RealtimeInteraction.getInstance().reloadDrawing();
+            element<HTMLInputElement>("xCoord").value = "";
+            element<HTMLInputElement>("yCoord").value = "";
+        });
+
+        await fetch(origin + mockPath + "/log", { method: "DELETE" });
+        await startSession("default");
+        await askQuestion();
+        expect(detailText((await waitForEvents("conversation.item.create", 4))[3])).not.toContain("the hotspot regions are tinted");
+    }, 15000);
+
+    it("switches the output modalities to audio on wake_word and back to text on sleep_word", async () => {
+        await startSession("wakeWord");
+        await askQuestion();
+
+        // wake_word: audio output, then the response announcing it
+        await vi.waitFor(async () => expect(outputModalities(await getLog("session.update"))).toContainEqual(["audio"]), { timeout: 5000 });
+        await waitForEvents("response.create", 2);
+        expect(element("audioState").textContent).toBe("Audio on");
+
+        await vi.waitFor(() => expect(element("modelResponse").textContent).toContain("Audio responses are now enabled."), { timeout: 5000 });
+        await askQuestion(); // spoken answer
+        await vi.waitFor(() => expect(element("modelResponse").textContent).toContain("This mock answer is also spoken."), { timeout: 5000 });
+        await askQuestion(); // sleep_word
+
+        // sleep_word: text output, the confirmation is still spoken
+        await vi.waitFor(async () => expect(outputModalities(await getLog("session.update")).at(-1)).toEqual(["text"]), { timeout: 5000 });
+        const responses = await waitForEvents("response.create", 5);
+        expect(responses.at(-1)!.event.response!.output_modalities).toEqual(["audio"]);
+        expect(element("audioState").textContent).toBe("Audio off");
+    });
+
+    it("stops the spoken answer and truncates it when the user starts talking", async () => {
+        setTurnDetection("push_to_talk");
+        onTestFinished(() => setTurnDetection("server_vad"));
+
+        await startSession("wakeWord");
+        await askQuestion(); // wake_word, then the spoken confirmation
+        await vi.waitFor(() => expect(element("modelResponse").textContent).toContain("Audio responses are now enabled."), { timeout: 5000 });
+
+        // the whole answer has arrived, its second of audio is still playing
+        element<HTMLButtonElement>("pushToTalkBtn").click();
+
+        const [truncate] = await waitForEvents("conversation.item.truncate", 1);
+        expect(truncate.event.item_id).toMatch(/^item_mock_/);
+        expect(truncate.event.content_index).toBe(0);
+        expect(truncate.event.audio_end_ms).toBeLessThan(1000);
+        await waitForEvents("input_audio_buffer.clear", 1);
+
+        element<HTMLButtonElement>("pushToTalkBtn").click(); // too short, discarded
+        expect(element("sessionState").textContent).toBe("Session on");
+    });
+
+    it("records only the audio after the push-to-talk press as the question", async () => {
+        setTurnDetection("push_to_talk");
+        element<HTMLInputElement>("recordSessionToggle").checked = true;
+        onTestFinished(() => {
+            setTurnDetection("server_vad");
+            element<HTMLInputElement>("recordSessionToggle").checked = false;
+        });
+
+        await startSession("default");
+        await vi.waitFor(() => expect(captures.length).toBeGreaterThanOrEqual(2)); // transport, then recorder
+        const recorderMicrophone = captures.at(-1)!;
+
+        recorderMicrophone(new Float32Array(24000)); // before the press, cleared with the server input buffer
+        element<HTMLButtonElement>("pushToTalkBtn").click();
+        await waitForEvents("input_audio_buffer.clear", 1);
+        recorderMicrophone(new Float32Array(4800));
+        await askQuestion();
+        await vi.waitFor(() => expect(element("modelResponse").textContent).toContain("You are pointing at the drawing."), { timeout: 5000 });
+        element<HTMLButtonElement>("pushToTalkBtn").click();
+        element<HTMLButtonElement>("stopBtn").click();
+
+        // the downloaded recording
+        let recording: Blob | null = null;
+        vi.spyOn(URL, "createObjectURL").mockImplementationOnce((blob) => {
+            recording = blob as Blob;
+            return "blob:recording";
+        });
+        vi.spyOn(HTMLAnchorElement.prototype, "click").mockImplementationOnce(() => { });
+        element<HTMLButtonElement>("downloadRecordingBtn").click();
+
+        const { audio } = JSON.parse(await recording!.text());
+        expect(audio).toHaveLength(1);
+        expect(Buffer.from(audio[0].audio, "base64").length).toBe(4800 * 2); // PCM16
+    });
+
+    it("keeps the session after a failed response", async () => {
+        await startSession("failedResponse");
+        await askQuestion();
+        await waitForEvents("response.create", 1);
+
+        await vi.waitFor(() => expect(element("transcriptList").textContent).toContain("Mock response failure"), { timeout: 5000 });
+        expect(element("sessionState").textContent).toBe("Session on");
+
+        await askQuestion();
+        await vi.waitFor(() => expect(element("modelResponse").textContent).toContain("The session survived the failed response."), { timeout: 5000 });
+
+        const connections = new Set((await getLog("session.update")).map((entry) => entry.connection));
+        expect(connections.size).toBe(1);
+    });
+
+    it("reconnects after a server error and resumes the conversation", async () => {
+        await startSession("serverError");
+        await askQuestion();
+        await vi.waitFor(() => expect(element("modelResponse").textContent).toContain("First answer, before the server error."), { timeout: 5000 });
+
+        await askQuestion(); // server_error
+        await vi.waitFor(async () => {
+            const connections = new Set((await getLog("session.update")).map((entry) => entry.connection));
+            expect(connections.size).toBe(2);
+        }, { timeout: 5000 });
+
+        // configuration, drawing content and summary of the conversation on the new connection,
+        // with the transcription of the spoken questions
+        await vi.waitFor(async () => {
+            const items = await getLog("conversation.item.create");
+            const resumed = items.filter((entry) => entry.connection === items.at(-1)!.connection);
+            const summary = resumed.flatMap(itemTexts).find((text) => text.includes("First answer, before the server error."));
+            expect(summary).toContain("User: Mock question.\n");
+            expect(summary).toContain("Assistant: First answer, before the server error.");
+        }, { timeout: 5000 });
+        await vi.waitFor(() => expect(element("sessionState").textContent).toBe("Session on"), { timeout: 5000 });
+    });
+
+    it("stops the session on any other error", async () => {
+        await startSession("invalidRequest");
+        await askQuestion();
+
+        await vi.waitFor(() => expect(element("sessionState").textContent).toBe("Session off"), { timeout: 5000 });
+        expect(element<HTMLButtonElement>("startBtn").disabled).toBe(false);
+    });
+});
@@ -0,0 +1,129 @@
+import { createServer } from "http";
+import { afterEach, describe, expect, it } from "vitest";
+import { createSessionHandler } from "../../server/sessionProxy";
+
+const servers = [];
+
+// serves the handler on a free port, returns its base URL
+async function listen(handler) {
+    const server = createServer(handler);
+    servers.push(server);
+    await new Promise((resolve) => server.listen(0, "127.0.0.1", resolve));
+    return `http://127.0.0.1:${server.address().port}`;
+}
+
+// stand-in of the OpenAI client secrets endpoint, records the requests it receives
+async function startStubUpstream(status = 200) {
+    const requests = [];
+    const url = await listen((req, res) => {
+        let raw = "";
+        req.on("data", (chunk) => raw += chunk);
+        req.on("end", () => {
+            requests.push({ headers: req.headers, body: JSON.parse(raw) });
+            res.statusCode = status;
+            res.setHeader("Content-Type", "application/json");
+            res.end(JSON.stringify(status === 200 ? { value: "ek_test", expires_at: 1234 } : { error: "stub error" }));
+        });
+    });
+
+    return { url, requests };
+}
+
+function postSession(url, body, headers = {}) {
+    return fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...headers },
+        body: typeof body === "string" ? body : JSON.stringify(body)
+    });
+}
+
+afterEach(async () => {
+    await Promise.all(servers.splice(0).map((server) => new Promise((resolve) => server.close(resolve))));
+});
+
+describe("session proxy", () => {
+    it("mints the key on the stub upstream with the session config and the api key", async () => {
+        const upstream = await startStubUpstream();
+        const url = await listen(createSessionHandler({ apiKey: "sk-test", upstreamUrl: upstream.url }));
+
+        const res = await postSession(url, { langCode: "it-IT", settings: { model: "gpt-realtime-mini", voice: "marin" } });
+
+        expect(res.status).toBe(200);
+        expect(await res.json()).toEqual({ value: "ek_test", expires_at: 1234 });
+
+        expect(upstream.requests).toHaveLength(1);
+        const { headers, body } = upstream.requests[0];
+        expect(headers.authorization).toBe("Bearer sk-test");
+        expect(body.session.model).toBe("gpt-realtime-mini");
+        expect(body.session.audio.output.voice).toBe("marin");
+        expect(body.session.tools.map((tool) => tool.name)).toEqual(expect.arrayContaining(["wake_word", "sleep_word"]));
+    });
+
+    it("replaces unknown settings with the defaults", async () => {
+        const upstream = await startStubUpstream();
+        const url = await listen(createSessionHandler({ apiKey: "sk-test", upstreamUrl: upstream.url }));
+
+        await postSession(url, { settings: { model: "gpt-5-secret", voice: "nobody", silenceDurationMs: 999999 } });
+
+        const { session } = upstream.requests[0].body;
+        expect(session.model).toBe("gpt-realtime");
+        expect(session.audio.output.voice).toBe("cedar");
+        expect(session.audio.input.turn_detection.silence_duration_ms).toBe(2000);
+    });
+
+    it("uses the fetch option to reach the upstream", async () => {
+        const calls = [];
+        const stubFetch = async (url, init) => {
+            calls.push({ url, init });
+            return new Response(JSON.stringify({ value: "ek_fetch" }), { status: 200 });
+        };
+        const url = await listen(createSessionHandler({ apiKey: "sk-test", upstreamUrl: "http://upstream.test/secrets", fetch: stubFetch }));
+
+        const res = await postSession(url, {});
+
+        expect(res.status).toBe(200);
+        expect((await res.json()).value).toBe("ek_fetch");
+        expect(calls[0].url).toBe("http://upstream.test/secrets");
+    });
+
+    it("answers 502 when the upstream fails or cannot be reached", async () => {
+        const upstream = await startStubUpstream(500);
+        const failingUrl = await listen(createSessionHandler({ apiKey: "sk-test", upstreamUrl: upstream.url }));
+        expect((await postSession(failingUrl, {})).status).toBe(502);
+
+        const unreachable = async () => { throw new Error("connection refused"); };
+        const unreachableUrl = await listen(createSessionHandler({ apiKey: "sk-test", fetch: unreachable }));
+        expect((await postSession(unreachableUrl, {})).status).toBe(502);
+    });
+
+    it("rejects other methods, invalid bodies and a missing api key", async () => {
+        const upstream = await startStubUpstream();
+        const url = await listen(createSessionHandler({ apiKey: "sk-test", upstreamUrl: upstream.url }));
+        const noKeyUrl = await listen(createSessionHandler({ upstreamUrl: upstream.url }));
+
+        expect((await fetch(url)).status).toBe(405);
+        expect((await postSession(url, "{ not json")).status).toBe(400);
+        expect((await postSession(noKeyUrl, {})).status).toBe(500);
+        expect(upstream.requests).toHaveLength(0);
+    });
+
+    it("limits the keys per client address, whatever the headers", async () => {
+        const upstream = await startStubUpstream();
+        const url = await listen(createSessionHandler({ apiKey: "sk-test", upstreamUrl: upstream.url, rateLimit: 2, rateWindowMs: 60000 }));
+
+        expect((await postSession(url, {}, { "x-user-id": "a" })).status).toBe(200);
+        expect((await postSession(url, {}, { "x-user-id": "b" })).status).toBe(200);
+        expect((await postSession(url, {}, { "x-user-id": "c" })).status).toBe(429);
+        expect(upstream.requests).toHaveLength(2);
+    });
+
+    it("starts a new window once the last one expired", async () => {
+        const upstream = await startStubUpstream();
+        const url = await listen(createSessionHandler({ apiKey: "sk-test", upstreamUrl: upstream.url, rateLimit: 1, rateWindowMs: 50 }));
+
+        expect((await postSession(url, {})).status).toBe(200);
+        expect((await postSession(url, {})).status).toBe(429);
+        await new Promise((resolve) => setTimeout(resolve, 60));
+        expect((await postSession(url, {})).status).toBe(200);
+    });
+});
@@ -0,0 +1,113 @@
+import { readdirSync, readFileSync, existsSync } from "fs";
+import { resolve } from "path";
+import { beforeAll, describe, expect, it } from "vitest";
+import { PixelBuffer, drawDot, fitWithin, toGrayScale } from "../../../src/utils/raster/pixels";
+import { setRasterBackend } from "../../../src/utils/raster/rasterBackend";
+import { reduceResolution } from "../../../src/utils/utils";
+import { pngRaster } from "./pngRaster";
+
+const filesDir = resolve(__dirname, "../../../files");
+
+// the template of every shipped drawing
+const templates = readdirSync(filesDir)
+    .filter((drawing) => existsSync(resolve(filesDir, drawing, "template.png")))
+    .map((drawing) => ({ drawing, path: resolve(filesDir, drawing, "template.png") }));
+
+function readTemplate(path: string): Blob {
+    return new Blob([readFileSync(path)], { type: "image/png" });
+}
+
+function pixelAt(pixels: PixelBuffer, x: number, y: number): number[] {
+    const i = (y * pixels.width + x) * 4;
+    return Array.from(pixels.data.subarray(i, i + 4));
+}
+
+beforeAll(() => {
+    setRasterBackend(pngRaster);
+});
+
+describe.each(templates)("template of $drawing", ({ path }) => {
+    let template: PixelBuffer;
+
+    beforeAll(async () => {
+        template = await pngRaster.decode(readTemplate(path));
+    });
+
+    it("is converted to gray scale with the Rec. 709 luminance, keeping the alpha", () => {
+        const gray = toGrayScale(template);
+
+        expect(gray.width).toBe(template.width);
+        expect(gray.height).toBe(template.height);
+
+        for (let i = 0; i < gray.data.length; i += 4) {
+            const [r, g, b, a] = template.data.subarray(i, i + 4);
+            const luminance = Math.round(r * 0.2126 + g * 0.7152 + b * 0.0722);
+
+            if (gray.data[i] !== luminance || gray.data[i + 1] !== luminance || gray.data[i + 2] !== luminance || gray.data[i + 3] !== a) {
+                throw new Error(`pixel ${i / 4} is [${Array.from(gray.data.subarray(i, i + 4))}], expected [${luminance}, ${luminance}, ${luminance}, ${a}]`);
+            }
+        }
+    });
+
+    it("does not change the original pixels", () => {
+        const before = new Uint8ClampedArray(template.data);
+        toGrayScale(template);
+        drawDot(template, 10, 10, 9);
+        expect(Buffer.from(template.data).equals(Buffer.from(before))).toBe(true); // toEqual is too slow on millions of values
+    });
+
+    it("gets a red dot of the given radius centered on the pointed position", () => {
+        const x = Math.round(template.width / 3), y = Math.round(template.height / 2), radius = 9;
+        const withDot = drawDot(toGrayScale(template), x, y, radius);
+        const gray = toGrayScale(template);
+
+        // inside the dot red prevails, outside nothing changed
+        for (let py = y - radius - 2; py <= y + radius + 2; py++) {
+            for (let px = x - radius - 2; px <= x + radius + 2; px++) {
+                const dx = px + 0.5 - x, dy = py + 0.5 - y;
+                const [r, g, b] = pixelAt(withDot, px, py);
+
+                if (dx * dx + dy * dy <= radius * radius) {
+                    expect(r).toBeGreaterThan(g);
+                    expect(r).toBeGreaterThan(b);
+                    expect(r).toBeGreaterThanOrEqual(Math.round(255 * 0.75));
+                } else {
+                    expect(pixelAt(withDot, px, py)).toEqual(pixelAt(gray, px, py));
+                }
+            }
+        }
+    });
+
+    it("gets a dot clipped at the image border", () => {
+        const withDot = drawDot(template, 0, template.height, 9);
+
+        expect(withDot.data.length).toBe(template.data.length);
+        expect(pixelAt(withDot, 0, template.height - 1)[0]).toBeGreaterThanOrEqual(Math.round(255 * 0.75));
+        expect(pixelAt(withDot, 20, template.height - 20)).toEqual(pixelAt(template, 20, template.height - 20));
+    });
+
+    it.each([600, 300, 2000])("is resized within %i px keeping the aspect ratio", async (maxDimension) => {
+        const reduced = await pngRaster.decode(await reduceResolution(readTemplate(path), maxDimension));
+        const expected = fitWithin(template.width, template.height, maxDimension);
+
+        expect(reduced.width).toBe(expected.width);
+        expect(reduced.height).toBe(expected.height);
+        expect(Math.max(reduced.width, reduced.height)).toBe(Math.min(maxDimension, Math.max(template.width, template.height)));
+
+        // rounding moves the ratio by less than one pixel
+        const ratio = template.width / template.height;
+        expect(Math.abs(reduced.width - reduced.height * ratio)).toBeLessThan(ratio);
+    });
+});
+
+describe("fitWithin", () => {
+    it("never enlarges the image", () => {
+        expect(fitWithin(400, 300, 600)).toEqual({ width: 400, height: 300 });
+    });
+
+    it("limits the longest side, landscape or portrait", () => {
+        expect(fitWithin(1200, 600, 600)).toEqual({ width: 600, height: 300 });
+        expect(fitWithin(600, 1200, 600)).toEqual({ width: 300, height: 600 });
+        expect(fitWithin(1000, 1000, 600)).toEqual({ width: 600, height: 600 });
+    });
+});
@@ -0,0 +1,49 @@
+import { PNG } from "pngjs";
+import { PixelBuffer, createPixelBuffer } from "../../../src/utils/raster/pixels";
+import { RasterBackend, RasterFormat } from "../../../src/utils/raster/rasterBackend";
+
+// backend for the tests in Node: PNG only, decoded and encoded by pngjs
+export const pngRaster: RasterBackend = {
+    name: "png",
+
+    async decode(blob: Blob): Promise<PixelBuffer> {
+        const png = PNG.sync.read(Buffer.from(await blob.arrayBuffer()));
+        return { width: png.width, height: png.height, data: new Uint8ClampedArray(png.data) };
+    },
+
+    async encode(pixels: PixelBuffer, format: RasterFormat): Promise<Blob> {
+        if (format !== "image/png") throw new Error(`${format} not supported by the png backend`);
+
+        const png = new PNG({ width: pixels.width, height: pixels.height });
+        png.data = Buffer.from(pixels.data);
+        return new Blob([new Uint8Array(PNG.sync.write(png))], { type: "image/png" });
+    },
+
+    // box filter when smooth, nearest neighbor otherwise
+    async resize(pixels: PixelBuffer, width: number, height: number, smooth: boolean = true): Promise<PixelBuffer> {
+        const resized = createPixelBuffer(width, height);
+        const scaleX = pixels.width / width;
+        const scaleY = pixels.height / height;
+
+        for (let y = 0; y < height; y++) {
+            for (let x = 0; x < width; x++) {
+                const x0 = Math.floor(x * scaleX), x1 = smooth ? Math.max(x0 + 1, Math.floor((x + 1) * scaleX)) : x0 + 1;
+                const y0 = Math.floor(y * scaleY), y1 = smooth ? Math.max(y0 + 1, Math.floor((y + 1) * scaleY)) : y0 + 1;
+
+                const sum = [0, 0, 0, 0];
+                for (let sy = y0; sy < y1; sy++) {
+                    for (let sx = x0; sx < x1; sx++) {
+                        const i = (sy * pixels.width + sx) * 4;
+                        for (let c = 0; c < 4; c++) sum[c] += pixels.data[i + c];
+                    }
+                }
+
+                const count = (x1 - x0) * (y1 - y0);
+                const j = (y * width + x) * 4;
+                for (let c = 0; c < 4; c++) resized.data[j + c] = Math.round(sum[c] / count);
+            }
+        }
+
+        return resized;
+    }
+};
@@ -1,28 +1,95 @@
-import { resolve } from "path";
+import { resolve, relative } from "path";
+import { readdirSync, existsSync } from "fs";
+import { loadEnv } from "vite";
+import { sessionProxy } from "./server/sessionProxy";
+import { mockRealtime } from "./server/mockRealtime/mockRealtime";
 
-export default {
-    root: '.',
+const filesDir = resolve(__dirname, "files");
 
-    publicDir: 'files',
+// every folder under files/ with a data.json is a drawing
+function listDrawings() {
+    return readdirSync(filesDir, { withFileTypes: true })
+        .filter((entry) => entry.isDirectory() && existsSync(resolve(filesDir, entry.name, "data.json")))
+        .map((entry) => entry.name)
+        .sort();
+}
 
-    build: {
-        outDir: 'dist',
-        emptyOutDir: true,
-        rollupOptions: {
-            input: {
-                main: resolve(__dirname, "index.html")
-            }
+// every file of a drawing folder, by path relative to the folder (e.g. "sounds/bell.mp3")
+function listDrawingFiles(drawing) {
+    const folder = resolve(filesDir, drawing);
+
+    return readdirSync(folder, { withFileTypes: true, recursive: true })
+        .filter((entry) => entry.isFile())
+        .map((entry) => relative(folder, resolve(entry.parentPath, entry.name)).split("\\").join("/"))
+        .sort();
+}
+
+// serves the drawing catalog as /drawings.json (generated again on every request in dev),
+// with the files of every drawing so that they can be exported unchanged
+function drawingCatalog() {
+    const manifest = () => {
+        const drawings = listDrawings();
+        const files = Object.fromEntries(drawings.map((drawing) => [drawing, listDrawingFiles(drawing)]));
+        return JSON.stringify({ drawings, files }, null, 4);
+    };
+
+    return {
+        name: "drawing-catalog",
+
+        configureServer(server) {
+            server.middlewares.use("/drawings.json", (req, res) => {
+                res.setHeader("Content-Type", "application/json");
+                res.end(manifest());
+            });
+        },
+
+        generateBundle() {
+            this.emitFile({ type: "asset", fileName: "drawings.json", source: manifest() });
         }
-    },
+    };
+}
+
+export default ({ mode }) => {
+    // server side variables, never exposed to the client (no VITE_ prefix)
+    const env = loadEnv(mode, process.cwd(), "");
 
-    server: {
-        port: 3001,
-        open: true
-    },
+    return {
+        root: '.',
 
-    resolve: {
-        alias: {
-            "@": resolve(__dirname, "src")
+        publicDir: 'files',
+
+        plugins: [
+            drawingCatalog(),
+            sessionProxy({
+                apiKey: env.OPENAI_API_KEY,
+                upstreamUrl: env.OPENAI_SESSION_UPSTREAM_URL,
+                rateLimit: Number(env.SESSION_RATE_LIMIT || 0),
+                rateWindowMs: Number(env.SESSION_RATE_WINDOW_MS || 60000)
+            }),
+            mockRealtime({
+                secondsPerQuestion: Number(env.MOCK_SECONDS_PER_QUESTION || 0)
+            })
+        ],
+
+        build: {
+            outDir: 'dist',
+            emptyOutDir: true,
+            rollupOptions: {
+                input: {
+                    main: resolve(__dirname, "index.html")
+                }
+            }
+        },
+
+        server: {
+            port: 3001,
+            open: true
+        },
+
+        resolve: {
+            alias: {
+                "@": resolve(__dirname, "src")
+            }
         }
-    }
+    };
 };
@@ -0,0 +1,9 @@
+import { defineConfig } from "vitest/config";
+
+// the tests run in Node, without the plugins of vite.config.js
+export default defineConfig({
+    test: {
+        include: ["test/**/*.test.{js,ts}"],
+        environment: "node"
+    }
+});